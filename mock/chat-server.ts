@@ -0,0 +1,784 @@
+/**
+ * Mock chat server for offline development and demos.
+ *
+ * Implements the subset of the Python chat server's HTTP contract that the
+ * Next.js proxies use (see src/lib/proxy.ts and src/lib/sseHub.ts), plus the
+ * /events SSE stream. State lives in memory, or in MOCK_DATA_FILE if set.
+ *
+ *   npm run mock
+ *   CHAT_API_URL="http://localhost:8765" npm run dev
+ *
+ * There is no voice bot here; the Connect button stays unavailable.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+const PORT = Number(process.env.MOCK_PORT) || 8765;
+const DATA_FILE = process.env.MOCK_DATA_FILE || null;
+// A fake conversation turn every so often keeps the events panel alive (0 disables)
+const TURN_INTERVAL_MS = Number(process.env.MOCK_TURN_INTERVAL_MS ?? 20000);
+const KEEPALIVE_MS = 15000;
+
+type GatingMode = "word" | "toggle" | "always-on";
+type StockLevel = "out_of_stock" | "running_low" | "sufficient";
+type TodoPriority = "low" | "normal" | "high";
+// Mirrors src/lib/recurrence.ts
+type TodoRecurrence =
+  | { type: "daily" }
+  | { type: "weekly"; days: number[] }
+  | { type: "interval"; unit: "week" | "month"; every: number }
+  | { type: "after_completion"; days: number };
+
+interface Memory {
+  id: string;
+  item: string;
+  location: string;
+  timestamp: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Stock {
+  id: string;
+  item: string;
+  quantity: string;
+  stock_level: StockLevel;
+  timestamp: string;
+  // Set by the app; the app derives stock_level from them
+  low_threshold?: number | null;
+  out_threshold?: number | null;
+  level_override?: boolean;
+  // Category id and store aisle, set by the app
+  category?: string | null;
+  aisle?: string | null;
+}
+
+interface FreezerItem {
+  code: string;
+  description: string;
+  added_at: string;
+}
+
+interface ChecklistItem {
+  id: string;
+  content: string;
+  completed: boolean;
+}
+
+interface Todo {
+  id: string;
+  content: string;
+  completed: boolean;
+  created_at: string;
+  completed_at: string | null;
+  due_date: string | null;
+  due_time: string | null;
+  snoozed_until: string | null;
+  priority: TodoPriority;
+  notes: string | null;
+  recurrence: TodoRecurrence | null;
+  checklist: ChecklistItem[];
+  list: string;
+  // true/false when set by hand; null lets the app guess from the wording
+  purchase: boolean | null;
+}
+
+interface ClientProfile {
+  id: string;
+  display: string;
+  gating: GatingMode;
+}
+
+interface State {
+  memories: Memory[];
+  stock: Stock[];
+  freezer: FreezerItem[];
+  todos: Todo[];
+  todo_lists: string[];
+  // Where todos created without a list (e.g. by voice) go
+  default_todo_list: string;
+  current_client: string | null;
+  gating_mode: GatingMode;
+  turn_count: number;
+}
+
+const GATING_MODES: GatingMode[] = ["word", "toggle", "always-on"];
+const STOCK_LEVELS: StockLevel[] = ["out_of_stock", "running_low", "sufficient"];
+const TODO_PRIORITIES: TodoPriority[] = ["low", "normal", "high"];
+
+const CLIENTS: ClientProfile[] = [
+  { id: "kitchen", display: "Kitchen", gating: "word" },
+  { id: "office", display: "Office", gating: "toggle" },
+  { id: "living-room", display: "Living Room", gating: "always-on" },
+];
+
+const VERSIONS = [
+  { version: "0.3", changes: ["Mock chat server for offline development"] },
+  { version: "0.2", changes: ["Freezer inventory", "To-do list"] },
+  { version: "0.1", changes: ["Item locations and stock tracking"] },
+];
+
+const now = () => new Date().toISOString();
+const daysAgo = (days: number) => new Date(Date.now() - days * 86400000).toISOString();
+// YYYY-MM-DD, "days" from today
+const dateOnly = (days: number) => new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+
+function seedState(): State {
+  const memory = (item: string, location: string, age: number): Memory => ({
+    id: randomUUID(),
+    item,
+    location,
+    timestamp: daysAgo(age),
+    created_at: daysAgo(age),
+    updated_at: daysAgo(age),
+  });
+  const stock = (item: string, quantity: string, stock_level: StockLevel, age: number): Stock => ({
+    id: randomUUID(),
+    item,
+    quantity,
+    stock_level,
+    timestamp: daysAgo(age),
+  });
+
+  const todo = (content: string, age: number, fields: Partial<Todo> = {}): Todo => ({
+    id: randomUUID(),
+    content,
+    completed: false,
+    created_at: daysAgo(age),
+    completed_at: null,
+    due_date: null,
+    due_time: null,
+    snoozed_until: null,
+    priority: "normal",
+    notes: null,
+    recurrence: null,
+    checklist: [],
+    list: "Household",
+    purchase: null,
+    ...fields,
+  });
+
+  return {
+    memories: [
+      memory("passports", "Office / Desk / Top drawer", 40),
+      memory("spare keys", "Kitchen / Pantry door / Hook", 12),
+      memory("spare key", "Hallway / Key hook", 2),
+      memory("christmas lights", "Garage / Top shelf / Blue box", 200),
+      memory("cordless drill", "Garage / Top shelf", 90),
+      memory("tax returns", "Office / Desk / Bottom drawer", 60),
+    ],
+    stock: [
+      { ...stock("milk", "1 gallon", "running_low", 2), category: "dairy", aisle: "1" },
+      { ...stock("eggs", "12", "sufficient", 4), category: "dairy", aisle: "1" },
+      { ...stock("coffee beans", "0", "out_of_stock", 1), category: "pantry", aisle: "7" },
+      {
+        ...stock("chopped tomatoes", "3 tins", "sufficient", 6),
+        low_threshold: 2,
+        out_threshold: 0,
+        category: "pantry",
+        aisle: "5",
+      },
+      { ...stock("rice", "1.5kg", "sufficient", 14), category: "pantry", aisle: "5" },
+      stock("olive oil", "1 bottle", "sufficient", 30),
+      stock("Olive Oil bottle", "half", "running_low", 3),
+      { ...stock("dishwasher tablets", "20", "sufficient", 9), category: "cleaning", aisle: "12" },
+      { ...stock("flour", "1 bag", "running_low", 20), category: "baking" },
+      stock("toothpaste", "1", "running_low", 5),
+    ],
+    freezer: [
+      { code: "A1", description: "chicken thighs, 2 lb", added_at: daysAgo(20) },
+      { code: "A2", description: "beef chili", added_at: daysAgo(95) },
+      { code: "B1", description: "frozen peas", added_at: daysAgo(5) },
+    ],
+    todos: [
+      todo("Call the plumber", 3, { due_date: dateOnly(-1), due_time: "09:00", priority: "high" }),
+      todo("Buy AA batteries", 1, { list: "Errands" }),
+      todo("Light bulbs for the hallway", 2, { purchase: true }),
+      todo("Renew car registration", 1, {
+        due_date: dateOnly(14),
+        notes: "Needs the emissions certificate",
+        list: "Errands",
+      }),
+      todo("Prep for guests", 2, {
+        due_date: dateOnly(3),
+        checklist: [
+          { id: randomUUID(), content: "clean the guest room", completed: true },
+          { id: randomUUID(), content: "shop", completed: false },
+          { id: randomUUID(), content: "cook", completed: false },
+        ],
+      }),
+      todo("Buy birthday card", 6, { completed: true, completed_at: daysAgo(2), priority: "low", list: "Errands" }),
+      todo("Prune the roses", 9, { list: "Garden" }),
+      todo("Descale the kettle", 20, {
+        due_date: dateOnly(8),
+        recurrence: { type: "interval", unit: "week", every: 4 },
+      }),
+    ],
+    todo_lists: ["Household", "Garden", "Errands"],
+    default_todo_list: "Household",
+    current_client: null,
+    gating_mode: "word",
+    turn_count: 0,
+  };
+}
+
+function loadState(): State {
+  if (DATA_FILE && existsSync(DATA_FILE)) {
+    try {
+      return { ...seedState(), ...JSON.parse(readFileSync(DATA_FILE, "utf-8")) };
+    } catch (error) {
+      console.warn(`[mock] Could not read ${DATA_FILE}, starting from seed data:`, error);
+    }
+  }
+  return seedState();
+}
+
+const state = loadState();
+
+function saveState() {
+  if (!DATA_FILE) return;
+  try {
+    writeFileSync(DATA_FILE, JSON.stringify(state, null, 2));
+  } catch (error) {
+    console.warn(`[mock] Could not write ${DATA_FILE}:`, error);
+  }
+}
+
+// --- SSE ---
+
+const subscribers = new Set<ServerResponse>();
+let eventSeq = 0;
+
+function broadcast(type: string, data: unknown) {
+  const block = `id: ${++eventSeq}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const res of subscribers) {
+    res.write(block);
+  }
+}
+
+function handleEvents(req: IncomingMessage, res: ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write(`event: connected\ndata: ${JSON.stringify({ server: "mock", connected_at: now() })}\n\n`);
+  subscribers.add(res);
+
+  const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_MS);
+  req.on("close", () => {
+    clearInterval(keepalive);
+    subscribers.delete(res);
+  });
+}
+
+// --- HTTP helpers ---
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type Body = Record<string, unknown>;
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+async function readBody(req: IncomingMessage): Promise<Body> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (chunks.length === 0) return {};
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+}
+
+function requireString(body: Body, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpError(400, `"${key}" is required`);
+  }
+  return value.trim();
+}
+
+function optionalString(body: Body, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") throw new HttpError(400, `"${key}" must be a string`);
+  return value.trim();
+}
+
+function findOr404<T>(items: T[], match: (item: T) => boolean, what: string): T {
+  const item = items.find(match);
+  if (!item) throw new HttpError(404, `${what} not found`);
+  return item;
+}
+
+function removeItem<T>(items: T[], item: T) {
+  items.splice(items.indexOf(item), 1);
+}
+
+// --- Resources ---
+
+type Handler = (ctx: { body: Body; query: URLSearchParams; params: string[] }) => [number, unknown];
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+const routes: Route[] = [];
+const route = (method: string, path: string, handler: Handler) => {
+  // ":param" segments become capture groups
+  const pattern = new RegExp(`^${path.replace(/:[a-z_]+/g, "([^/]+)")}$`);
+  routes.push({ method, pattern, handler });
+};
+
+// Memories
+route("GET", "/memories", () => [200, { memories: state.memories }]);
+
+route("POST", "/memories", ({ body }) => {
+  const timestamp = now();
+  const memory: Memory = {
+    id: randomUUID(),
+    item: requireString(body, "item"),
+    location: requireString(body, "location"),
+    timestamp,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+  state.memories.push(memory);
+  broadcast("memory_created", memory);
+  return [201, memory];
+});
+
+route("PUT", "/memories/:id", ({ body, params }) => {
+  const memory = findOr404(state.memories, (m) => m.id === params[0], "Memory");
+  memory.item = optionalString(body, "item") || memory.item;
+  memory.location = optionalString(body, "location") || memory.location;
+  memory.updated_at = now();
+  broadcast("memory_updated", memory);
+  return [200, memory];
+});
+
+route("DELETE", "/memories/:id", ({ params }) => {
+  const memory = findOr404(state.memories, (m) => m.id === params[0], "Memory");
+  removeItem(state.memories, memory);
+  broadcast("memory_deleted", { id: memory.id });
+  return [200, { success: true }];
+});
+
+// Stock
+const parseStockLevel = (body: Body): StockLevel | undefined => {
+  const level = body.stock_level;
+  if (level === undefined) return undefined;
+  if (!STOCK_LEVELS.includes(level as StockLevel)) {
+    throw new HttpError(400, `"stock_level" must be one of ${STOCK_LEVELS.join(", ")}`);
+  }
+  return level as StockLevel;
+};
+
+// Threshold fields: a number >= 0, or null to clear
+const parseThreshold = (body: Body, key: "low_threshold" | "out_threshold"): number | null | undefined => {
+  const value = body[key];
+  if (value === undefined || value === null) return value;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new HttpError(400, `"${key}" must be a number >= 0 or null`);
+  }
+  return value;
+};
+
+// Copy the threshold fields present in the body onto a stock entry
+function applyThresholds(stock: Stock, body: Body) {
+  const low = parseThreshold(body, "low_threshold");
+  const out = parseThreshold(body, "out_threshold");
+  if (low !== undefined) stock.low_threshold = low;
+  if (out !== undefined) stock.out_threshold = out;
+  if (body.level_override !== undefined) {
+    if (typeof body.level_override !== "boolean") {
+      throw new HttpError(400, `"level_override" must be a boolean`);
+    }
+    stock.level_override = body.level_override;
+  }
+}
+
+// Copy category and aisle onto a stock entry; null or "" clears them
+function applyPlacement(stock: Stock, body: Body) {
+  for (const key of ["category", "aisle"] as const) {
+    const value = body[key] === null ? "" : optionalString(body, key);
+    if (value !== undefined) stock[key] = value || null;
+  }
+}
+
+route("GET", "/stock", () => [200, { stock: state.stock }]);
+
+route("POST", "/stock", ({ body }) => {
+  const stock: Stock = {
+    id: randomUUID(),
+    item: requireString(body, "item"),
+    quantity: optionalString(body, "quantity") || "",
+    stock_level: parseStockLevel(body) || "sufficient",
+    timestamp: now(),
+  };
+  applyThresholds(stock, body);
+  applyPlacement(stock, body);
+  state.stock.push(stock);
+  broadcast("stock_created", stock);
+  return [201, stock];
+});
+
+route("PUT", "/stock/:id", ({ body, params }) => {
+  const stock = findOr404(state.stock, (s) => s.id === params[0], "Stock item");
+  stock.item = optionalString(body, "item") || stock.item;
+  stock.quantity = optionalString(body, "quantity") ?? stock.quantity;
+  stock.stock_level = parseStockLevel(body) || stock.stock_level;
+  applyThresholds(stock, body);
+  applyPlacement(stock, body);
+  stock.timestamp = now();
+  broadcast("stock_updated", stock);
+  return [200, stock];
+});
+
+route("DELETE", "/stock/:id", ({ params }) => {
+  const stock = findOr404(state.stock, (s) => s.id === params[0], "Stock item");
+  removeItem(state.stock, stock);
+  broadcast("stock_deleted", { id: stock.id });
+  return [200, { success: true }];
+});
+
+// Freezer
+route("GET", "/freezer", () => [200, { items: state.freezer }]);
+
+route("POST", "/freezer", ({ body }) => {
+  const code = requireString(body, "code").toUpperCase();
+  if (state.freezer.some((f) => f.code === code)) {
+    throw new HttpError(409, `Code ${code} is already in use`);
+  }
+  const item: FreezerItem = {
+    code,
+    description: requireString(body, "description"),
+    added_at: optionalString(body, "added_at") || now(),
+  };
+  state.freezer.push(item);
+  broadcast("freezer_item_created", item);
+  return [201, item];
+});
+
+route("PATCH", "/freezer/:code", ({ body, params }) => {
+  const code = decodeURIComponent(params[0]).toUpperCase();
+  const item = findOr404(state.freezer, (f) => f.code === code, "Freezer item");
+  item.description = optionalString(body, "description") || item.description;
+  item.added_at = optionalString(body, "added_at") || item.added_at;
+  broadcast("freezer_item_updated", item);
+  return [200, item];
+});
+
+route("DELETE", "/freezer/:code", ({ params }) => {
+  const code = decodeURIComponent(params[0]).toUpperCase();
+  const item = findOr404(state.freezer, (f) => f.code === code, "Freezer item");
+  removeItem(state.freezer, item);
+  broadcast("freezer_item_deleted", { code: item.code });
+  return [200, { success: true }];
+});
+
+// Todos
+// List names match case-insensitively ("add it to the garden list")
+const findList = (name: string) => state.todo_lists.find((list) => list.toLowerCase() === name.toLowerCase());
+
+const requireList = (name: string) => {
+  const list = findList(name);
+  if (!list) throw new HttpError(400, `Unknown list "${name}"`);
+  return list;
+};
+
+const isPositiveInt = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+const isRecurrence = (value: unknown): value is TodoRecurrence => {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as Record<string, unknown>;
+  switch (rule.type) {
+    case "daily":
+      return true;
+    case "weekly":
+      return Array.isArray(rule.days) && rule.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+    case "interval":
+      return (rule.unit === "week" || rule.unit === "month") && isPositiveInt(rule.every);
+    case "after_completion":
+      return isPositiveInt(rule.days);
+    default:
+      return false;
+  }
+};
+
+const parseTodoFields = (body: Body): Partial<Todo> => {
+  const fields: Partial<Todo> = {};
+
+  if (body.due_date !== undefined) {
+    if (body.due_date !== null && (typeof body.due_date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(body.due_date))) {
+      throw new HttpError(400, `"due_date" must be YYYY-MM-DD or null`);
+    }
+    fields.due_date = body.due_date as string | null;
+  }
+  if (body.due_time !== undefined) {
+    if (body.due_time !== null && (typeof body.due_time !== "string" || !/^\d{2}:\d{2}$/.test(body.due_time))) {
+      throw new HttpError(400, `"due_time" must be HH:MM or null`);
+    }
+    fields.due_time = body.due_time as string | null;
+  }
+  if (body.snoozed_until !== undefined) {
+    if (body.snoozed_until !== null && (typeof body.snoozed_until !== "string" || isNaN(Date.parse(body.snoozed_until)))) {
+      throw new HttpError(400, `"snoozed_until" must be an ISO timestamp or null`);
+    }
+    fields.snoozed_until = body.snoozed_until as string | null;
+  }
+  if (body.priority !== undefined) {
+    if (!TODO_PRIORITIES.includes(body.priority as TodoPriority)) {
+      throw new HttpError(400, `"priority" must be one of ${TODO_PRIORITIES.join(", ")}`);
+    }
+    fields.priority = body.priority as TodoPriority;
+  }
+  if (body.notes !== undefined) {
+    if (body.notes !== null && typeof body.notes !== "string") {
+      throw new HttpError(400, `"notes" must be a string or null`);
+    }
+    fields.notes = (body.notes as string | null)?.trim() || null;
+  }
+  if (body.recurrence !== undefined) {
+    if (body.recurrence !== null && !isRecurrence(body.recurrence)) {
+      throw new HttpError(400, `"recurrence" is not a valid recurrence rule`);
+    }
+    fields.recurrence = body.recurrence as TodoRecurrence | null;
+  }
+  if (body.checklist !== undefined) {
+    if (!Array.isArray(body.checklist)) {
+      throw new HttpError(400, `"checklist" must be an array`);
+    }
+    fields.checklist = body.checklist.map((entry: unknown) => {
+      const item = (entry || {}) as Record<string, unknown>;
+      if (typeof item.content !== "string" || !item.content.trim()) {
+        throw new HttpError(400, `Checklist items need a "content" string`);
+      }
+      return {
+        id: typeof item.id === "string" && item.id ? item.id : randomUUID(),
+        content: item.content.trim(),
+        completed: item.completed === true,
+      };
+    });
+  }
+  if (body.list !== undefined) {
+    fields.list = requireList(requireString(body, "list"));
+  }
+  if (body.purchase !== undefined) {
+    if (body.purchase !== null && typeof body.purchase !== "boolean") {
+      throw new HttpError(400, `"purchase" must be a boolean or null`);
+    }
+    fields.purchase = body.purchase as boolean | null;
+  }
+  return fields;
+};
+
+route("GET", "/todos", ({ query }) => {
+  const includeCompleted = query.get("include_completed") === "true";
+  const list = query.get("list") ? requireList(query.get("list") as string) : null;
+  const todos = state.todos.filter(
+    (t) => (includeCompleted || !t.completed) && (!list || t.list === list)
+  );
+  return [200, { todos }];
+});
+
+route("POST", "/todos", ({ body }) => {
+  const todo: Todo = {
+    id: randomUUID(),
+    content: requireString(body, "content"),
+    completed: false,
+    created_at: now(),
+    completed_at: null,
+    due_date: null,
+    due_time: null,
+    snoozed_until: null,
+    priority: "normal",
+    notes: null,
+    recurrence: null,
+    checklist: [],
+    list: state.default_todo_list,
+    purchase: null,
+    ...parseTodoFields(body),
+  };
+  state.todos.push(todo);
+  broadcast("todo_created", todo);
+  return [201, todo];
+});
+
+route("PATCH", "/todos/:id", ({ body, params }) => {
+  const todo = findOr404(state.todos, (t) => t.id === params[0], "Todo");
+  const fields = parseTodoFields(body);
+  todo.content = optionalString(body, "content") || todo.content;
+  Object.assign(todo, fields);
+  if (typeof body.completed === "boolean" && body.completed !== todo.completed) {
+    todo.completed = body.completed;
+    todo.completed_at = body.completed ? now() : null;
+  }
+  broadcast("todo_updated", todo);
+  return [200, todo];
+});
+
+route("DELETE", "/todos/:id", ({ params }) => {
+  const todo = findOr404(state.todos, (t) => t.id === params[0], "Todo");
+  removeItem(state.todos, todo);
+  broadcast("todo_deleted", { id: todo.id });
+  return [200, { success: true }];
+});
+
+// Clients and gating
+route("GET", "/clients", () => [
+  200,
+  { clients: CLIENTS, current_client: state.current_client, count: CLIENTS.length },
+]);
+
+// Todo lists
+const todoListSummary = () => ({
+  lists: state.todo_lists.map((name) => {
+    const todos = state.todos.filter((t) => t.list === name);
+    return {
+      name,
+      pending_count: todos.filter((t) => !t.completed).length,
+      total_count: todos.length,
+    };
+  }),
+  default_list: state.default_todo_list,
+});
+
+route("GET", "/todo-lists", () => [200, todoListSummary()]);
+
+route("POST", "/todo-lists", ({ body }) => {
+  const name = requireString(body, "name");
+  if (findList(name)) throw new HttpError(409, `List "${name}" already exists`);
+  state.todo_lists.push(name);
+  broadcast("todo_lists_changed", todoListSummary());
+  return [201, { name }];
+});
+
+route("POST", "/todo-lists/default", ({ body }) => {
+  state.default_todo_list = requireList(requireString(body, "name"));
+  broadcast("todo_lists_changed", todoListSummary());
+  return [200, { default_list: state.default_todo_list }];
+});
+
+// Items on a deleted list move to the default list
+route("DELETE", "/todo-lists/:name", ({ params }) => {
+  const name = requireList(decodeURIComponent(params[0]));
+  if (name === state.default_todo_list) {
+    throw new HttpError(400, "The default list can't be deleted");
+  }
+  state.todos
+    .filter((t) => t.list === name)
+    .forEach((t) => {
+      t.list = state.default_todo_list;
+      broadcast("todo_updated", t);
+    });
+  removeItem(state.todo_lists, name);
+  broadcast("todo_lists_changed", todoListSummary());
+  return [200, { success: true }];
+});
+
+route("POST", "/clients/select", ({ body }) => {
+  const clientId = requireString(body, "client_id");
+  const client = findOr404(CLIENTS, (c) => c.id === clientId, "Client");
+  state.current_client = client.id;
+  state.gating_mode = client.gating;
+  const selected = { client_id: client.id, gating: client.gating };
+  broadcast("client_selected", selected);
+  return [200, selected];
+});
+
+route("GET", "/gating/modes", () => [200, { modes: GATING_MODES, current: state.gating_mode }]);
+
+route("POST", "/gating/mode", ({ body }) => {
+  const mode = requireString(body, "mode") as GatingMode;
+  if (!GATING_MODES.includes(mode)) {
+    throw new HttpError(400, `"mode" must be one of ${GATING_MODES.join(", ")}`);
+  }
+  state.gating_mode = mode;
+  broadcast("gating_mode_changed", { mode });
+  return [200, { mode }];
+});
+
+const requireToggleMode = () => {
+  if (state.gating_mode !== "toggle") {
+    throw new HttpError(400, "Listening can only be started or stopped in toggle mode");
+  }
+};
+
+route("POST", "/gating/start", () => {
+  requireToggleMode();
+  broadcast("assistant_listening_started", {});
+  return [200, { listening: true }];
+});
+
+route("POST", "/gating/stop", () => {
+  requireToggleMode();
+  broadcast("assistant_listening_stopped", {});
+  return [200, { listening: false }];
+});
+
+// Version
+route("GET", "/version", () => [200, { version: VERSIONS[0].version }]);
+route("GET", "/version/current", () => [200, VERSIONS[0]]);
+route("GET", "/version/history", () => [200, { versions: VERSIONS, count: VERSIONS.length }]);
+
+// --- Server ---
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  const method = req.method || "GET";
+
+  if (method === "GET" && url.pathname === "/events") {
+    handleEvents(req, res);
+    return;
+  }
+
+  const pathRoutes = routes.filter((r) => r.pattern.test(url.pathname));
+  const match = pathRoutes.find((r) => r.method === method);
+
+  try {
+    if (!match) {
+      throw pathRoutes.length > 0
+        ? new HttpError(405, "Method not allowed")
+        : new HttpError(404, "Not found");
+    }
+
+    const params = (url.pathname.match(match.pattern) || []).slice(1);
+    const body = method === "GET" || method === "DELETE" ? {} : await readBody(req);
+    const [status, data] = match.handler({ body, query: url.searchParams, params });
+
+    if (method !== "GET") saveState();
+    sendJson(res, status, data);
+    console.log(`[mock] ${method} ${url.pathname} -> ${status}`);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : "Internal error";
+    sendJson(res, status, { error: message });
+    console.log(`[mock] ${method} ${url.pathname} -> ${status} (${message})`);
+  }
+});
+
+if (TURN_INTERVAL_MS > 0) {
+  setInterval(() => {
+    state.turn_count += 1;
+    broadcast("turn_counter_updated", { turn_count: state.turn_count });
+  }, TURN_INTERVAL_MS);
+}
+
+server.listen(PORT, () => {
+  console.log(`[mock] Chat server listening on http://localhost:${PORT}`);
+  console.log(`[mock] State: ${DATA_FILE ? `persisted to ${DATA_FILE}` : "in memory"}`);
+});
@@ -0,0 +1,73 @@
+/**
+ * Service worker for to-do reminders.
+ *
+ * The page decides when a reminder is due (see src/app/hooks/useReminders.ts)
+ * and shows it through this worker's registration, which is what makes the
+ * Snooze / Done notification actions possible. Those actions are handled here.
+ */
+
+const SNOOZE_MINUTES = 10;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+const patchTodo = (todoId, updates) =>
+  fetch(`/api/todos/${encodeURIComponent(todoId)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify(updates),
+  });
+
+const windowClients = () => self.clients.matchAll({ type: "window", includeUncontrolled: true });
+
+// Local calendar date as YYYY-MM-DD, like todayString() in src/lib/recurrence.ts
+const todayString = () => {
+  const now = new Date();
+  const month = (now.getMonth() + 1).toString().padStart(2, "0");
+  const day = now.getDate().toString().padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+// The server completes the item and rolls a recurring one over, so this
+// works with no page open
+const completeTodo = (todoId) =>
+  fetch(`/api/todos/complete?id=${encodeURIComponent(todoId)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify({ today: todayString() }),
+  });
+
+const snoozeTodo = (todoId) =>
+  patchTodo(todoId, {
+    snoozed_until: new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000).toISOString(),
+  });
+
+const focusApp = async () => {
+  const clients = await windowClients();
+  if (clients.length > 0) {
+    return clients[0].focus();
+  }
+  return self.clients.openWindow("/");
+};
+
+self.addEventListener("notificationclick", (event) => {
+  const { todoId } = event.notification.data || {};
+  event.notification.close();
+
+  if (!todoId) {
+    event.waitUntil(focusApp());
+  } else if (event.action === "complete") {
+    event.waitUntil(completeTodo(todoId));
+  } else if (event.action === "snooze") {
+    event.waitUntil(snoozeTodo(todoId));
+  } else {
+    event.waitUntil(focusApp());
+  }
+});
@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/proxy";
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// /api/* - Chat server resources, see PROXY_ROUTES in src/lib/proxy.ts
+async function handleRequest(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  return proxyRequest(request, path);
+}
+
+export const GET = handleRequest;
+export const POST = handleRequest;
+export const PUT = handleRequest;
+export const PATCH = handleRequest;
+export const DELETE = handleRequest;
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
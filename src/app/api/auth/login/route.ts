@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from "@/lib/session";
+import { findUser, toPublicUser, verifyPassword } from "@/lib/users";
+
+// Slow down password guessing
+const FAILED_LOGIN_DELAY_MS = 1000;
+
+// POST /api/auth/login - Check credentials and set the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    if (typeof username !== "string" || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "Missing username or password" },
+        { status: 400 }
+      );
+    }
+
+    const user = await findUser(username.trim());
+    if (!user || !(await verifyPassword(user, password))) {
+      await new Promise((resolve) => setTimeout(resolve, FAILED_LOGIN_DELAY_MS));
+      return NextResponse.json(
+        { error: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user: toPublicUser(user) });
+    response.cookies.set(
+      SESSION_COOKIE,
+      await createSessionToken(user.username),
+      sessionCookieOptions(request)
+    );
+    return response;
+  } catch (error) {
+    console.error("Login error:", error);
+    return NextResponse.json({ error: "Login failed" }, { status: 500 });
+  }
+}
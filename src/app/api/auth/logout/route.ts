@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/session";
+
+// POST /api/auth/logout - Clear the session cookie
+export async function POST() {
+  const response = NextResponse.json({ status: "logged_out" });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { findUser, loadUsers, toPublicUser } from "@/lib/users";
+
+// GET /api/auth/session - Current user, and whether the first account still has to be created
+export async function GET(request: NextRequest) {
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const user = session ? await findUser(session.username) : null;
+  const setupRequired = !user && (await loadUsers()).length === 0;
+
+  return NextResponse.json({
+    user: user ? toPublicUser(user) : null,
+    setupRequired,
+  });
+}
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
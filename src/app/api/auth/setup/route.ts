@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from "@/lib/session";
+import { createUser, loadUsers, toPublicUser } from "@/lib/users";
+
+// POST /api/auth/setup - Create the first household account (only while none exist)
+export async function POST(request: NextRequest) {
+  try {
+    if ((await loadUsers()).length > 0) {
+      return NextResponse.json(
+        { error: "Setup has already been completed" },
+        { status: 409 }
+      );
+    }
+
+    const { username, displayName, password } = await request.json();
+    const result = await createUser(String(username ?? ""), String(displayName ?? ""), String(password ?? ""));
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const response = NextResponse.json({ user: toPublicUser(result.user) }, { status: 201 });
+    response.cookies.set(
+      SESSION_COOKIE,
+      await createSessionToken(result.user.username),
+      sessionCookieOptions(request)
+    );
+    return response;
+  } catch (error) {
+    console.error("Setup error:", error);
+    return NextResponse.json({ error: "Setup failed" }, { status: 500 });
+  }
+}
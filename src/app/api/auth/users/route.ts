@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { USER_HEADER } from "@/lib/session";
+import { createUser, loadUsers, toPublicUser } from "@/lib/users";
+
+// GET /api/auth/users - List household accounts
+export async function GET(request: NextRequest) {
+  if (!request.headers.get(USER_HEADER)) {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+
+  const users = await loadUsers();
+  return NextResponse.json({ users: users.map(toPublicUser), count: users.length });
+}
+
+// POST /api/auth/users - Add another household account (logged-in users only)
+export async function POST(request: NextRequest) {
+  const actor = request.headers.get(USER_HEADER);
+  if (!actor) {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+
+  try {
+    const { username, displayName, password } = await request.json();
+    const result = await createUser(String(username ?? ""), String(displayName ?? ""), String(password ?? ""));
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(toPublicUser(result.user), { status: 201 });
+  } catch (error) {
+    console.error("User create error:", error);
+    return NextResponse.json({ error: "Failed to create user" }, { status: 500 });
+  }
+}
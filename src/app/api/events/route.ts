@@ -1,90 +1,44 @@
 import { NextRequest } from "next/server";
+import { sseHub } from "@/lib/sseHub";
 
-const API_BASE = process.env.CHAT_API_URL || "http://localhost:8765";
-
-// GET /api/events - SSE proxy to backend events endpoint
+// GET /api/events - SSE stream fanned out from a single upstream connection
+// Resumes after Last-Event-ID (header on automatic reconnects, or the
+// lastEventId query parameter when the client opens a fresh EventSource)
 export async function GET(request: NextRequest) {
-  // Check if client disconnected
-  const abortController = new AbortController();
-
-  request.signal.addEventListener("abort", () => {
-    abortController.abort();
-  });
+  const lastEventId =
+    request.headers.get("last-event-id") ??
+    request.nextUrl.searchParams.get("lastEventId");
 
-  try {
-    const backendResponse = await fetch(`${API_BASE}/events`, {
-      headers: {
-        Accept: "text/event-stream",
-        "Cache-Control": "no-cache",
-      },
-      signal: abortController.signal,
-    });
+  let subscriber: ReadableStreamDefaultController<Uint8Array> | null = null;
 
-    if (!backendResponse.ok) {
-      return new Response(
-        `data: ${JSON.stringify({ error: "Backend connection failed" })}\n\n`,
-        {
-          status: 502,
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache, no-transform",
-            Connection: "keep-alive",
-          },
-        }
-      );
+  const unsubscribe = () => {
+    if (subscriber) {
+      sseHub.unsubscribe(subscriber);
+      subscriber = null;
     }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      subscriber = controller;
+      sseHub.subscribe(controller, lastEventId);
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
 
-    // Stream the SSE response from backend to client
-    const stream = new ReadableStream({
-      async start(controller) {
-        const reader = backendResponse.body?.getReader();
-        if (!reader) {
-          controller.close();
-          return;
-        }
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            controller.enqueue(value);
-          }
-        } catch (error) {
-          // Client disconnected or other error
-          if (error instanceof Error && error.name !== "AbortError") {
-            console.error("SSE proxy stream error:", error);
-          }
-        } finally {
-          controller.close();
-          reader.releaseLock();
-        }
-      },
-      cancel() {
-        abortController.abort();
-      },
-    });
+  // Client disconnected
+  request.signal.addEventListener("abort", unsubscribe);
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache, no-transform",
-        Connection: "keep-alive",
-        "X-Accel-Buffering": "no", // Disable nginx buffering
-      },
-    });
-  } catch (error) {
-    console.error("SSE proxy error:", error);
-    return new Response(
-      `data: ${JSON.stringify({ error: "Failed to connect to backend" })}\n\n`,
-      {
-        status: 503,
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache, no-transform",
-        },
-      }
-    );
-  }
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Disable nginx buffering
+    },
+  });
 }
 
 // Disable static optimization for this route
@@ -1,136 +0,0 @@
-import { NextRequest, NextResponse } from "next/server";
-
-const API_BASE = process.env.CHAT_API_URL || "http://localhost:8765";
-
-// GET /freezer - List all items or search
-export async function GET(request: NextRequest) {
-  try {
-    const search = request.nextUrl.searchParams.get("search");
-    const url = search
-      ? `${API_BASE}/freezer?search=${encodeURIComponent(search)}`
-      : `${API_BASE}/freezer`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: "Failed to fetch freezer items" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Freezer fetch error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
-
-// POST /freezer - Create a new item
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-
-    const response = await fetch(`${API_BASE}/freezer`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const data = await response.json();
-      return NextResponse.json(
-        { error: data.error || "Failed to create freezer item" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data, { status: 201 });
-  } catch (error) {
-    console.error("Freezer create error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
-
-// PATCH /freezer?code={code} - Partial update an item
-export async function PATCH(request: NextRequest) {
-  try {
-    const code = request.nextUrl.searchParams.get("code");
-    if (!code) {
-      return NextResponse.json(
-        { error: "Missing code parameter" },
-        { status: 400 }
-      );
-    }
-
-    const body = await request.json();
-
-    const response = await fetch(`${API_BASE}/freezer/${encodeURIComponent(code)}`, {
-      method: "PATCH",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const data = await response.json();
-      return NextResponse.json(
-        { error: data.error || "Failed to update freezer item" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Freezer update error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
-
-// DELETE /freezer?code={code} - Delete an item
-export async function DELETE(request: NextRequest) {
-  try {
-    const code = request.nextUrl.searchParams.get("code");
-    if (!code) {
-      return NextResponse.json(
-        { error: "Missing code parameter" },
-        { status: 400 }
-      );
-    }
-
-    const response = await fetch(`${API_BASE}/freezer/${encodeURIComponent(code)}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const data = await response.json();
-      return NextResponse.json(
-        { error: data.error || "Failed to delete freezer item" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Freezer delete error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+
+const API_BASE = process.env.CHAT_API_URL || "http://localhost:8765";
+const BOT_BASE_URL =
+  process.env.BOT_START_URL?.replace("/start", "") || "http://localhost:7860";
+
+const PROBE_TIMEOUT_MS = 3000;
+
+type DependencyStatus = "up" | "down";
+
+interface DependencyHealth {
+  status: DependencyStatus;
+  latency_ms: number | null;
+  error?: string;
+}
+
+// Time a request to a dependency; "acceptAnyStatus" treats any HTTP
+// response as reachable (the bot server has no dedicated health route)
+async function probe(url: string, acceptAnyStatus: boolean): Promise<DependencyHealth> {
+  const started = Date.now();
+
+  try {
+    const headers: Record<string, string> = {};
+    if (url.startsWith(BOT_BASE_URL) && process.env.BOT_START_PUBLIC_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.BOT_START_PUBLIC_API_KEY}`;
+    }
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers,
+      cache: "no-store",
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    const latencyMs = Date.now() - started;
+    // Don't keep the connection busy with a body we don't need
+    await response.body?.cancel();
+
+    if (!acceptAnyStatus && !response.ok) {
+      return { status: "down", latency_ms: latencyMs, error: `HTTP ${response.status}` };
+    }
+    return { status: "up", latency_ms: latencyMs };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return {
+      status: "down",
+      latency_ms: null,
+      error: timedOut ? `No response within ${PROBE_TIMEOUT_MS}ms` : "Connection refused",
+    };
+  }
+}
+
+// GET /api/health - Reachability and latency of the bot and chat servers
+export async function GET() {
+  const [bot, chat] = await Promise.all([
+    probe(BOT_BASE_URL, true),
+    probe(`${API_BASE}/version`, false),
+  ]);
+
+  const upCount = [bot, chat].filter((d) => d.status === "up").length;
+  const status = upCount === 2 ? "ok" : upCount === 0 ? "down" : "degraded";
+
+  return NextResponse.json(
+    {
+      status,
+      checked_at: new Date().toISOString(),
+      dependencies: { bot, chat },
+    },
+    { status: status === "ok" ? 200 : 503 }
+  );
+}
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { USER_HEADER } from "@/lib/session";
+import { claimLocationChange, getLocationHistory } from "@/lib/locationHistory";
+
+// GET /api/memories/history?id=<memory id> - The memory's location timeline, oldest first
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id parameter" }, { status: 400 });
+  }
+  return NextResponse.json({ history: await getLocationHistory(id) });
+}
+
+// POST /api/memories/history - {id, location}: the logged-in user moved an item
+export async function POST(request: NextRequest) {
+  // Set by the auth middleware, never taken from the client
+  const user = request.headers.get(USER_HEADER);
+  if (!user) {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { id, location } = body;
+  if (typeof id !== "string" || typeof location !== "string") {
+    return NextResponse.json({ error: '"id" and "location" must be strings' }, { status: 400 });
+  }
+
+  try {
+    await claimLocationChange(id, location.trim(), user);
+  } catch {
+    return NextResponse.json({ error: "Failed to save location history" }, { status: 500 });
+  }
+  return NextResponse.json({ history: await getLocationHistory(id) });
+}
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
@@ -1,127 +0,0 @@
-import { NextRequest, NextResponse } from "next/server";
-
-const API_BASE = process.env.CHAT_API_URL || "http://localhost:8765";
-
-// GET /memories - List all memories
-export async function GET() {
-  try {
-    const response = await fetch(`${API_BASE}/memories`, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: "Failed to fetch memories" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Memories fetch error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
-
-// POST /memories - Create a new memory
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-
-    const response = await fetch(`${API_BASE}/memories`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: "Failed to create memory" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Memory create error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
-
-// PUT /memories?id={id} - Update a memory
-export async function PUT(request: NextRequest) {
-  try {
-    const id = request.nextUrl.searchParams.get("id");
-    if (!id) {
-      return NextResponse.json(
-        { error: "Missing id parameter" },
-        { status: 400 }
-      );
-    }
-
-    const body = await request.json();
-
-    const response = await fetch(`${API_BASE}/memories/${encodeURIComponent(id)}`, {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: "Failed to update memory" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Memory update error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
-
-// DELETE /memories?id={id} - Delete a memory
-export async function DELETE(request: NextRequest) {
-  try {
-    const id = request.nextUrl.searchParams.get("id");
-    if (!id) {
-      return NextResponse.json(
-        { error: "Missing id parameter" },
-        { status: 400 }
-      );
-    }
-
-    const response = await fetch(`${API_BASE}/memories/${encodeURIComponent(id)}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: "Failed to delete memory" },
-        { status: response.status }
-      );
-    }
-
-    return NextResponse.json({ status: "deleted" });
-  } catch (error) {
-    console.error("Memory delete error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server" },
-      { status: 503 }
-    );
-  }
-}
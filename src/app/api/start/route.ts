@@ -1,4 +1,7 @@
 import { NextResponse } from "next/server";
+import { USER_HEADER } from "@/lib/session";
+import { getTransportPolicy, transportFromRequestData } from "@/lib/transports";
+import { getIceServers } from "@/lib/ice";
 
 export async function POST(request: Request) {
   const botStartUrl =
@@ -14,6 +17,21 @@ export async function POST(request: Request) {
     // Parse the request body from the client
     const requestData = await request.json();
 
+    // Only start bots on transports this deployment offers
+    const transport = transportFromRequestData(requestData?.transport);
+    if (!transport) {
+      return NextResponse.json(
+        { error: "Missing or unknown transport" },
+        { status: 400 }
+      );
+    }
+    if (!getTransportPolicy().transports.includes(transport)) {
+      return NextResponse.json(
+        { error: `Transport "${transport}" is not enabled on this server` },
+        { status: 400 }
+      );
+    }
+
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
     };
@@ -22,6 +40,20 @@ export async function POST(request: Request) {
       headers.Authorization = `Bearer ${process.env.BOT_START_PUBLIC_API_KEY}`;
     }
 
+    // Attribute the session to the logged-in user (set by the auth middleware)
+    const user = request.headers.get(USER_HEADER);
+    if (user) {
+      headers[USER_HEADER] = user;
+    }
+
+    // Our own STUN/TURN servers (with fresh TURN credentials) for SmallWebRTC
+    const iceServers = transport === "smallwebrtc" ? getIceServers(user) : [];
+    if (iceServers.length > 0) {
+      requestData.iceConfig = {
+        iceServers: [...(requestData.iceConfig?.iceServers || []), ...iceServers],
+      };
+    }
+
     // Pass through the request data from the client
     const response = await fetch(botStartUrl, {
       method: "POST",
@@ -39,6 +71,14 @@ export async function POST(request: Request) {
       throw new Error(data.error);
     }
 
+    // The client transport picks up iceConfig from the start response
+    if (iceServers.length > 0) {
+      data.iceConfig = {
+        ...data.iceConfig,
+        iceServers: [...(data.iceConfig?.iceServers || []), ...iceServers],
+      };
+    }
+
     return NextResponse.json(data);
   } catch (error) {
     return NextResponse.json(
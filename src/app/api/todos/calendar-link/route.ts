@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { USER_HEADER } from "@/lib/session";
+import { getCalendarToken } from "@/lib/users";
+
+// Feed URL as the browser reached us (Tailscale terminates TLS and forwards plain HTTP)
+function feedUrl(request: NextRequest, token: string): string {
+  const proto = request.headers.get("x-forwarded-proto") || request.nextUrl.protocol.replace(":", "");
+  const host = request.headers.get("x-forwarded-host") || request.headers.get("host") || request.nextUrl.host;
+  return `${proto}://${host}/api/todos/calendar.ics?token=${token}`;
+}
+
+async function respond(request: NextRequest, regenerate: boolean) {
+  const username = request.headers.get(USER_HEADER);
+  if (!username) {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+
+  const token = await getCalendarToken(username, regenerate);
+  if (!token) {
+    return NextResponse.json({ error: "Unknown user" }, { status: 404 });
+  }
+
+  return NextResponse.json({ url: feedUrl(request, token) });
+}
+
+// GET /api/todos/calendar-link - The logged-in user's calendar feed URL
+export async function GET(request: NextRequest) {
+  return respond(request, false);
+}
+
+// POST /api/todos/calendar-link - Replace the feed URL (the old one stops working)
+export async function POST(request: NextRequest) {
+  return respond(request, true);
+}
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
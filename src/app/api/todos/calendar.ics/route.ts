@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchProxiedResource } from "@/lib/proxy";
+import { renderCalendar, type CalendarTodo } from "@/lib/ical";
+import { findUserByCalendarToken } from "@/lib/users";
+
+// GET /api/todos/calendar.ics?token=... - To-dos as an iCalendar subscription feed
+// (no session cookie: the per-user token in the URL is the credential)
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const user = await findUserByCalendarToken(searchParams.get("token") ?? "");
+  if (!user) {
+    return NextResponse.json({ error: "Invalid calendar token" }, { status: 401 });
+  }
+
+  // Same data as /api/todos; "list" narrows the feed to one list
+  const query = new URLSearchParams();
+  const list = searchParams.get("list");
+  if (list) query.set("list", list);
+
+  try {
+    const response = await fetchProxiedResource("todos", query, user.username);
+    if (!response.ok) {
+      return NextResponse.json({ error: "Failed to fetch todos" }, { status: response.status });
+    }
+
+    const data = await response.json();
+    const todos: CalendarTodo[] = Array.isArray(data) ? data : (data.todos || []);
+    const body = renderCalendar(todos, list ? `To-do: ${list}` : "To-do");
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="todos.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json({ error: "Failed to connect to server" }, { status: 503 });
+  }
+}
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { USER_HEADER } from "@/lib/session";
+import { fetchProxiedResource } from "@/lib/proxy";
+import { nextOccurrenceOf, todayString, type RecurringTodo, type TodoRecurrence } from "@/lib/recurrence";
+
+type Todo = RecurringTodo & { id: string; completed: boolean; recurrence?: TodoRecurrence | null };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST /api/todos/complete?id=... - Complete a to-do and roll a recurring one
+// over to its next occurrence, the same way the To-Do tab does. Used by the
+// reminder notification's "Done" action, which may run with no page open.
+// Body: optional {today: "YYYY-MM-DD"}, the device's date (defaults to the server's).
+export async function POST(request: NextRequest) {
+  const user = request.headers.get(USER_HEADER);
+  if (!user) {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id parameter" }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const today = typeof body?.today === "string" && DATE_PATTERN.test(body.today) ? body.today : todayString();
+
+  try {
+    const listResponse = await fetchProxiedResource("todos", new URLSearchParams(), user);
+    if (!listResponse.ok) {
+      return NextResponse.json({ error: "Failed to fetch todos" }, { status: listResponse.status });
+    }
+    const data = await listResponse.json();
+    const todos: Todo[] = Array.isArray(data) ? data : (data.todos || []);
+    const todo = todos.find((t) => t.id === id);
+    if (!todo) {
+      return NextResponse.json({ error: "Todo not found" }, { status: 404 });
+    }
+    // Already done (e.g. on another device): nothing to roll over
+    if (todo.completed) {
+      return NextResponse.json({ todo, next: null });
+    }
+
+    const recurrence = todo.recurrence ?? null;
+    const patch = (updates: Record<string, unknown>) =>
+      fetchProxiedResource(`todos/${id}`, new URLSearchParams(), user, { method: "PATCH", body: updates });
+
+    const completedResponse = await patch(recurrence ? { completed: true, recurrence: null } : { completed: true });
+    if (!completedResponse.ok) {
+      return NextResponse.json({ error: "Failed to complete todo" }, { status: completedResponse.status });
+    }
+    const completed: Todo = await completedResponse.json();
+    if (!recurrence) {
+      return NextResponse.json({ todo: completed, next: null });
+    }
+
+    const nextResponse = await fetchProxiedResource("todos", new URLSearchParams(), user, {
+      method: "POST",
+      body: nextOccurrenceOf(completed, recurrence, today),
+    });
+    if (!nextResponse.ok) {
+      // Put the rule back so the series isn't lost
+      await patch({ recurrence });
+      return NextResponse.json({ error: "Failed to create the next occurrence" }, { status: nextResponse.status });
+    }
+
+    return NextResponse.json({ todo: completed, next: await nextResponse.json() });
+  } catch (error) {
+    console.error("Todo complete error:", error);
+    return NextResponse.json({ error: "Failed to connect to server" }, { status: 503 });
+  }
+}
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
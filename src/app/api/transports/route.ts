@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getTransportPolicy } from "@/lib/transports";
+
+// GET /api/transports - Transports this deployment offers, default first
+export async function GET() {
+  return NextResponse.json(getTransportPolicy());
+}
+
+// Disable static optimization for this route
+export const dynamic = "force-dynamic";
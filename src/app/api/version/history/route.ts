@@ -1,29 +0,0 @@
-import { NextResponse } from "next/server";
-
-const API_BASE = process.env.CHAT_API_URL || "http://localhost:8765";
-
-// GET /api/version/history - Get full server version history
-export async function GET() {
-  try {
-    const response = await fetch(`${API_BASE}/version/history`, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: "Failed to fetch server version history" },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Server version history fetch error:", error);
-    return NextResponse.json(
-      { error: "Failed to connect to server", versions: [], count: 0 },
-      { status: 503 }
-    );
-  }
-}
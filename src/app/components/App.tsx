@@ -11,23 +11,41 @@ import { MemoriesTable } from "./MemoriesTable";
 import { StockTable } from "./StockTable";
 import { FreezerTable } from "./FreezerTable";
 import { TodoTable } from "./TodoTable";
+import { TodoListSwitcher } from "./TodoListSwitcher";
+import { ShoppingList } from "./ShoppingList";
 import { AsciiConnectButton } from "./AsciiConnectButton";
 import { ProfileSelector } from "./ProfileSelector";
 import { GatingModeSelector } from "./GatingModeSelector";
+import { TransportSelector } from "./TransportSelector";
 import { ListenToggleButton } from "./ListenToggleButton";
 import { MicDots } from "./MicDots";
 import { VersionDisplay } from "./VersionDisplay";
 import { NewVersionPopup } from "./NewVersionPopup";
+import { UserDisplay } from "./UserDisplay";
+import { BackendStatus } from "./BackendStatus";
+import { DiagnosticsPanel } from "./DiagnosticsPanel";
 import { useMemories } from "../hooks/useMemories";
 import { useStock } from "../hooks/useStock";
 import { useFreezer } from "../hooks/useFreezer";
+import { useTodos } from "../hooks/useTodos";
+import { useTodoLists } from "../hooks/useTodoLists";
+import { useShoppingList } from "../hooks/useShoppingList";
+import { useReminders } from "../hooks/useReminders";
 import { useVersion } from "../hooks/useVersion";
 import { useClientProfile } from "../hooks/useClientProfile";
+import { useHealth } from "../hooks/useHealth";
+import type { AuthUser } from "../hooks/useAuth";
+import type { TransportType } from "../../config";
 
 interface AppProps {
   client: PipecatClient;
   connectParams: APIRequest;
   handleDisconnect?: () => void | Promise<void>;
+  user: AuthUser;
+  onLogout: () => void;
+  transport: TransportType;
+  availableTransports: TransportType[];
+  onSelectTransport: (transport: TransportType) => void;
 }
 
 const TABS = [
@@ -36,15 +54,26 @@ const TABS = [
   { id: "inventory", label: "Inventory" },
   { id: "freezer", label: "Freezer" },
   { id: "todo", label: "To-Do" },
+  { id: "shopping", label: "Shopping" },
+  { id: "diagnostics", label: "Diagnostics" },
 ];
 
 export const App = ({
   client,
   connectParams,
   handleDisconnect,
+  user,
+  onLogout,
+  transport,
+  availableTransports,
+  onSelectTransport,
 }: AppProps) => {
-  const { memories, isLoading: memoriesLoading, error: memoriesError, refresh: refreshMemories, createMemory, updateMemory, deleteMemory } = useMemories();
+  const { memories, isLoading: memoriesLoading, error: memoriesError, refresh: refreshMemories, createMemory, updateMemory, deleteMemory, locationHistory, loadLocationHistory } = useMemories();
   const { stock, isLoading: stockLoading, error: stockError, refresh: refreshStock, createStock, updateStock, deleteStock } = useStock();
+  const { lists: todoLists, defaultList: defaultTodoList, activeList: activeTodoList, setActiveList: setActiveTodoList, createList: createTodoList, deleteList: deleteTodoList, setDefaultList: setDefaultTodoList } = useTodoLists();
+  const { todos, isLoading: todosLoading, error: todosError, refresh: refreshTodos, createTodo, updateTodo, deleteTodo, undo: undoTodo, canUndo: canUndoTodo } = useTodos(activeTodoList);
+  const { entries: shoppingEntries, checked: shoppingChecked, isLoading: shoppingLoading, error: shoppingError, refresh: refreshShopping, check: checkShopping, uncheck: uncheckShopping, clearChecked: clearShoppingChecked } = useShoppingList(stock, updateStock);
+  const { status: reminderStatus, toggle: toggleReminders } = useReminders();
   const { items: freezerItems, isLoading: freezerLoading, error: freezerError, refresh: refreshFreezer, createItem: createFreezerItem, updateItem: updateFreezerItem, deleteItem: deleteFreezerItem, undoDelete: undoFreezerDelete, canUndo: canUndoFreezer } = useFreezer();
   const {
     clientVersion,
@@ -65,8 +94,9 @@ export const App = ({
     isListening,
     toggleListening,
   } = useClientProfile();
+  const { health, isChecking: isCheckingHealth, refresh: refreshHealth } = useHealth();
 
-  const { isConnected } = usePipecatConnectionState();
+  const { isConnected, isConnecting } = usePipecatConnectionState();
   const wasConnectedRef = useRef(false);
 
   // Sync server state with client UI when connection is established
@@ -128,6 +158,13 @@ export const App = ({
     client?.initDevices();
   }, [client]);
 
+  // Block connecting while the bot server is known to be unreachable
+  const botHealth = health?.dependencies.bot;
+  const connectUnavailableMessage =
+    botHealth?.status === "down"
+      ? `The voice server is not reachable (${botHealth.error || "unknown error"}).`
+      : null;
+
   return (
     <div className="main-layout crt-container">
       {newVersions.length > 0 && (
@@ -141,6 +178,7 @@ export const App = ({
           <AsciiConnectButton
             onConnect={handleConnect}
             onDisconnect={handleDisconnectInternal}
+            unavailableMessage={connectUnavailableMessage}
           />
           <ProfileSelector
             clients={clients}
@@ -148,6 +186,12 @@ export const App = ({
             onSelectClient={selectClient}
             isLoading={isLoadingClients}
           />
+          <TransportSelector
+            transports={availableTransports}
+            currentTransport={transport}
+            onSelectTransport={onSelectTransport}
+            disabled={isConnected || isConnecting}
+          />
           <GatingModeSelector
             modes={gatingModes}
             currentMode={currentGatingMode}
@@ -162,6 +206,12 @@ export const App = ({
           )}
         </div>
         <div className="control-bar-right">
+          <BackendStatus
+            health={health}
+            isChecking={isCheckingHealth}
+            onRefresh={refreshHealth}
+          />
+          <UserDisplay user={user} onLogout={onLogout} />
           <VersionDisplay
             clientVersion={clientVersion}
             serverVersion={serverVersion}
@@ -194,6 +244,8 @@ export const App = ({
                   onAddMemory={createMemory}
                   onDeleteMemory={deleteMemory}
                   onUpdateMemory={updateMemory}
+                  locationHistory={locationHistory}
+                  onLoadHistory={loadLocationHistory}
                 />
               </div>
             )}
@@ -227,7 +279,48 @@ export const App = ({
             )}
             {activeTab === "todo" && (
               <div className="content-area">
-                <TodoTable />
+                <TodoListSwitcher
+                  lists={todoLists}
+                  activeList={activeTodoList}
+                  defaultList={defaultTodoList}
+                  onSelectList={setActiveTodoList}
+                  onCreateList={createTodoList}
+                  onDeleteList={deleteTodoList}
+                  onSetDefaultList={setDefaultTodoList}
+                />
+                <TodoTable
+                  todos={todos}
+                  isLoading={todosLoading}
+                  error={todosError}
+                  onRefresh={refreshTodos}
+                  onAddTodo={createTodo}
+                  onUpdateTodo={updateTodo}
+                  onDeleteTodo={deleteTodo}
+                  onUndo={undoTodo}
+                  canUndo={canUndoTodo}
+                  lists={todoLists.map((list) => list.name)}
+                  reminderStatus={reminderStatus}
+                  onToggleReminders={toggleReminders}
+                />
+              </div>
+            )}
+            {activeTab === "shopping" && (
+              <div className="content-area">
+                <ShoppingList
+                  entries={shoppingEntries}
+                  checked={shoppingChecked}
+                  isLoading={shoppingLoading}
+                  error={shoppingError}
+                  onRefresh={refreshShopping}
+                  onCheck={checkShopping}
+                  onUncheck={uncheckShopping}
+                  onClearChecked={clearShoppingChecked}
+                />
+              </div>
+            )}
+            {activeTab === "diagnostics" && (
+              <div className="content-area">
+                <DiagnosticsPanel client={client} transport={transport} />
               </div>
             )}
           </>
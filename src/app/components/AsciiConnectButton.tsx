@@ -1,22 +1,33 @@
 "use client";
 
+import { useState } from "react";
 import { usePipecatConnectionState } from "@pipecat-ai/voice-ui-kit";
 
+import { RetroModal } from "./RetroModal";
+
 interface AsciiConnectButtonProps {
   onConnect: () => void;
   onDisconnect: () => void;
+  // When set, connecting is blocked and this message is shown instead
+  unavailableMessage?: string | null;
 }
 
 export const AsciiConnectButton = ({
   onConnect,
   onDisconnect,
+  unavailableMessage,
 }: AsciiConnectButtonProps) => {
   const { isConnected, isConnecting } = usePipecatConnectionState();
+  const [showUnavailable, setShowUnavailable] = useState(false);
 
   const handleClick = () => {
     if (isConnected) {
       onDisconnect();
     } else if (!isConnecting) {
+      if (unavailableMessage) {
+        setShowUnavailable(true);
+        return;
+      }
       onConnect();
     }
   };
@@ -28,13 +39,28 @@ export const AsciiConnectButton = ({
     label = "Connecting...";
   }
 
+  const isUnavailable = !isConnected && !isConnecting && !!unavailableMessage;
+
   return (
-    <button
-      className={`ascii-button ${isConnected ? "connected" : "disconnected"}`}
-      onClick={handleClick}
-      disabled={isConnecting}
-    >
-      [ {label} ]
-    </button>
+    <>
+      <button
+        className={`ascii-button ${isConnected ? "connected" : "disconnected"} ${isUnavailable ? "unavailable" : ""}`}
+        onClick={handleClick}
+        disabled={isConnecting}
+        title={isUnavailable ? unavailableMessage : undefined}
+      >
+        [ {label} ]
+      </button>
+      <RetroModal
+        isOpen={showUnavailable}
+        onClose={() => setShowUnavailable(false)}
+        title="Voice Server Unavailable"
+      >
+        <p>{unavailableMessage}</p>
+        <p style={{ marginTop: 12 }}>
+          Lists and inventory still work. Try connecting again once the BOT indicator shows UP.
+        </p>
+      </RetroModal>
+    </>
   );
 };
@@ -0,0 +1,47 @@
+"use client";
+
+import type { DependencyName, HealthReport } from "../hooks/useHealth";
+
+interface BackendStatusProps {
+  health: HealthReport | null;
+  isChecking: boolean;
+  onRefresh: () => void;
+}
+
+const DEPENDENCY_LABELS: Record<DependencyName, string> = {
+  bot: "BOT",
+  chat: "CHAT",
+};
+
+export const BackendStatus = ({ health, isChecking, onRefresh }: BackendStatusProps) => {
+  return (
+    <div
+      className="backend-status"
+      onClick={onRefresh}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => e.key === "Enter" && onRefresh()}
+      title="Click to re-check"
+    >
+      {(Object.keys(DEPENDENCY_LABELS) as DependencyName[]).map((name) => {
+        const dependency = health?.dependencies[name];
+        const state = !dependency ? "unknown" : dependency.status;
+        const detail = !dependency
+          ? "not checked yet"
+          : dependency.status === "up"
+            ? `${dependency.latency_ms}ms`
+            : dependency.error || "unreachable";
+
+        return (
+          <span
+            key={name}
+            className={`backend-status-item ${state} ${isChecking ? "checking" : ""}`}
+            title={`${DEPENDENCY_LABELS[name]} server: ${detail}`}
+          >
+            {DEPENDENCY_LABELS[name]}:{state === "up" ? "UP" : state === "down" ? "DOWN" : "?"}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
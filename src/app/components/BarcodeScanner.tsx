@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { stockLevelOf, type Stock, type StockLevel, type StockPlacement } from "../hooks/useStock";
+import { useBarcodeLinks } from "../hooks/useBarcodeLinks";
+import { useBarcodeScanner } from "../hooks/useBarcodeScanner";
+import { CATEGORIES, categoryLabel, guessCategory } from "@/lib/categories";
+import { displayQuantity, parseQuantity } from "@/lib/quantity";
+
+interface BarcodeScannerProps {
+  stock: Stock[];
+  onStep: (stockItem: Stock, direction: 1 | -1) => Promise<void>;
+  onMarkLow: (stockItem: Stock) => Promise<void>;
+  onAdd: (item: string, quantity: string, stockLevel: StockLevel, placement: StockPlacement) => Promise<void>;
+}
+
+const LEVEL_LABELS: Record<StockLevel, string> = {
+  out_of_stock: "OUT",
+  running_low: "LOW",
+  sufficient: "OK",
+};
+
+export const BarcodeScanner = ({ stock, onStep, onMarkLow, onAdd }: BarcodeScannerProps) => {
+  const { links, findStock, link, unlink } = useBarcodeLinks();
+  const [code, setCode] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Add form for an unknown code
+  const [nameInput, setNameInput] = useState("");
+  const [quantityInput, setQuantityInput] = useState("1");
+  const [categoryInput, setCategoryInput] = useState("");
+
+  const handleDetected = (detected: string) => {
+    setCode(detected);
+    setMessage(null);
+    // A code whose entry is gone keeps its old name
+    setNameInput(links[detected]?.item ?? "");
+    setQuantityInput("1");
+    setCategoryInput("");
+  };
+
+  const { videoRef, isCameraOn, isDecoding, error, startCamera, stopCamera, scanImage } =
+    useBarcodeScanner(handleDetected);
+
+  const stockItem = code ? findStock(code, stock) : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const item = nameInput.trim();
+    if (!code || !item || !quantityInput.trim()) return;
+    await run(async () => {
+      try {
+        await onAdd(item, quantityInput.trim(), "sufficient", { category: categoryInput || guessCategory(item) });
+        link(code, item);
+        setMessage(`Added ${item} - scans of ${code} now find it`);
+      } catch {
+        setMessage("Failed to add the item");
+      }
+    });
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same photo again still fires a change
+    e.target.value = "";
+    if (file) {
+      stopCamera();
+      scanImage(file);
+    }
+  };
+
+  const canStep = stockItem !== null && parseQuantity(stockItem.quantity) !== null;
+
+  return (
+    <div className="barcode-scanner">
+      <div className="barcode-controls">
+        <button className="sort-button" onClick={isCameraOn ? stopCamera : startCamera}>
+          {isCameraOn ? "STOP CAMERA" : "CAMERA"}
+        </button>
+        <button
+          className="sort-button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isDecoding}
+          title="Read a barcode from a photo"
+        >
+          {isDecoding ? "READING..." : "PHOTO"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleFile}
+          className="barcode-file-input"
+        />
+        <span className="barcode-status">
+          {error ?? (isCameraOn ? "Point the camera at a barcode..." : !code ? "Scan an EAN/UPC code" : "")}
+        </span>
+      </div>
+
+      <video
+        ref={videoRef}
+        className={`barcode-video ${isCameraOn ? "active" : ""}`}
+        muted
+        playsInline
+      />
+
+      {code && stockItem && (
+        <div className="barcode-result">
+          <span className="barcode-code">{code}</span>
+          <span className="stock-arrow">→</span>
+          <span className="barcode-item">{stockItem.item}</span>
+          <span className="barcode-detail">
+            {displayQuantity(stockItem.quantity)} [{LEVEL_LABELS[stockLevelOf(stockItem).level]}]
+          </span>
+          <button
+            className="barcode-action"
+            onClick={() => run(() => onStep(stockItem, 1))}
+            disabled={isWorking || !canStep}
+            title={canStep ? "Add one" : "Quantity needs a number to step"}
+          >
+            [+1]
+          </button>
+          <button
+            className="barcode-action"
+            onClick={() => run(() => onStep(stockItem, -1))}
+            disabled={isWorking || !canStep}
+            title={canStep ? "Use one" : "Quantity needs a number to step"}
+          >
+            [-1]
+          </button>
+          <button
+            className="barcode-action"
+            onClick={() => run(() => onMarkLow(stockItem))}
+            disabled={isWorking || stockLevelOf(stockItem).level === "running_low"}
+          >
+            [MARK LOW]
+          </button>
+          <button
+            className="barcode-action barcode-unlink"
+            onClick={() => unlink(code)}
+            title="Forget which item this barcode is"
+          >
+            [UNLINK]
+          </button>
+        </div>
+      )}
+
+      {code && !stockItem && (
+        <div className="barcode-result" onKeyDown={(e) => e.key === "Enter" && handleAdd()}>
+          <span className="barcode-code">{code}</span>
+          <span className="barcode-detail">new code -</span>
+          <input
+            type="text"
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            placeholder="item name"
+            className="stock-edit-input"
+            autoFocus
+          />
+          <input
+            type="text"
+            value={quantityInput}
+            onChange={(e) => setQuantityInput(e.target.value)}
+            placeholder="quantity"
+            className="stock-edit-input stock-limit-input"
+          />
+          <select
+            value={categoryInput}
+            onChange={(e) => setCategoryInput(e.target.value)}
+            className="stock-category-select"
+            title="Category for the new item"
+          >
+            <option value="">{categoryLabel(guessCategory(nameInput)).toUpperCase()} (SUGGESTED)</option>
+            {CATEGORIES.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label.toUpperCase()}
+              </option>
+            ))}
+          </select>
+          <button
+            className="barcode-action"
+            onClick={handleAdd}
+            disabled={isWorking || !nameInput.trim() || !quantityInput.trim()}
+          >
+            [ADD]
+          </button>
+          {stock.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                const target = stock.find((s) => s.id === e.target.value);
+                if (target) link(code, target);
+              }}
+              className="stock-category-select"
+              title="Or link this barcode to an item already in the inventory"
+            >
+              <option value="">OR LINK TO...</option>
+              {[...stock]
+                .sort((a, b) => a.item.localeCompare(b.item))
+                .map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.item}
+                  </option>
+                ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {message && <div className="barcode-status">{">"} {message}</div>}
+    </div>
+  );
+};
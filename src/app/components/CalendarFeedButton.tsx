@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { RetroModal } from "./RetroModal";
+
+// Opens the logged-in user's to-do calendar subscription link
+export const CalendarFeedButton = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadLink = async (regenerate: boolean) => {
+    setMessage(null);
+    try {
+      const response = await fetch("/api/todos/calendar-link", {
+        method: regenerate ? "POST" : "GET",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to get the calendar link");
+      setUrl(data.url);
+      if (regenerate) setMessage("New link created - the old one no longer works");
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Failed to get the calendar link");
+    }
+  };
+
+  const open = () => {
+    setIsOpen(true);
+    if (!url) loadLink(false);
+  };
+
+  const copy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("Copied");
+    } catch {
+      setMessage("Copy failed - select the link and copy it by hand");
+    }
+  };
+
+  return (
+    <>
+      <button className="undo-button" onClick={open} title="Subscribe to your to-dos from a calendar app">
+        CALENDAR
+      </button>
+      <RetroModal isOpen={isOpen} onClose={() => setIsOpen(false)} title="To-Do Calendar Feed">
+        <p>Add this link as a calendar subscription. Dated to-dos appear as events, repeats included.</p>
+        <input
+          type="text"
+          readOnly
+          value={url ?? "Loading..."}
+          onFocus={(e) => e.target.select()}
+          className="calendar-feed-url"
+        />
+        <div className="calendar-feed-actions">
+          <button className="undo-button" onClick={copy} disabled={!url}>
+            [COPY]
+          </button>
+          {url && (
+            <a className="undo-button" href={url.replace(/^https?:/, "webcal:")}>
+              [SUBSCRIBE]
+            </a>
+          )}
+          <button
+            className="undo-button"
+            onClick={() => loadLink(true)}
+            title="Anyone with the old link loses access"
+          >
+            [NEW LINK]
+          </button>
+        </div>
+        {message && <p className="calendar-feed-message">{message}</p>}
+        <p className="calendar-feed-message">Keep it private: anyone with the link can read your to-dos.</p>
+      </RetroModal>
+    </>
+  );
+};
@@ -0,0 +1,113 @@
+"use client";
+
+import type { PipecatClient } from "@pipecat-ai/client-js";
+import { usePipecatConnectionState } from "@pipecat-ai/voice-ui-kit";
+
+import { useWebRTCStats } from "../hooks/useWebRTCStats";
+import type { AudioStreamStats } from "../hooks/useWebRTCStats";
+import { TRANSPORT_LABELS, type TransportType } from "../../config";
+
+interface DiagnosticsPanelProps {
+  client: PipecatClient;
+  transport: TransportType;
+}
+
+// Thresholds where voice starts to suffer noticeably
+const RTT_WARN_MS = 250;
+const JITTER_WARN_MS = 30;
+const LOSS_WARN_PERCENT = 2;
+
+const format = (value: number | null | undefined, unit: string) =>
+  value === null || value === undefined ? "--" : `${value}${unit}`;
+
+const levelClass = (value: number | null | undefined, warnAt: number) =>
+  value !== null && value !== undefined && value >= warnAt ? "diag-warn" : "";
+
+const StatRow = ({ label, value, className = "" }: { label: string; value: string; className?: string }) => (
+  <div className="diag-row">
+    <span className="diag-label">{label}</span>
+    <span className={`diag-value ${className}`}>{value}</span>
+  </div>
+);
+
+const AudioSection = ({ title, audio }: { title: string; audio: AudioStreamStats | null }) => (
+  <div className="diag-section">
+    <div className="diag-section-title">{title}</div>
+    {!audio ? (
+      <StatRow label="STATUS" value="no audio stream" />
+    ) : (
+      <>
+        <StatRow label="CODEC" value={audio.codec || "--"} />
+        <StatRow label="BITRATE" value={format(audio.bitrate_kbps, " kbps")} />
+        <StatRow
+          label="JITTER"
+          value={format(audio.jitter_ms, " ms")}
+          className={levelClass(audio.jitter_ms, JITTER_WARN_MS)}
+        />
+        <StatRow
+          label="LOSS"
+          value={
+            audio.packet_loss_percent === null
+              ? "--"
+              : `${audio.packet_loss_percent}% (${audio.packets_lost ?? 0} pkts)`
+          }
+          className={levelClass(audio.packet_loss_percent, LOSS_WARN_PERCENT)}
+        />
+      </>
+    )}
+  </div>
+);
+
+export const DiagnosticsPanel = ({ client, transport }: DiagnosticsPanelProps) => {
+  const { isConnected } = usePipecatConnectionState();
+  const { stats, unavailableReason, downloadSnapshot } = useWebRTCStats(client, transport, isConnected);
+
+  // "relay" means media goes through TURN, which adds latency
+  const pathLabel = stats?.local_candidate_type
+    ? `${stats.local_candidate_type} -> ${stats.remote_candidate_type || "?"}${stats.protocol ? ` (${stats.protocol})` : ""}`
+    : "--";
+
+  return (
+    <div className="diagnostics-container">
+      <div className="section-header">
+        {"// DIAGNOSTICS "}
+        <span className="memory-count">[{TRANSPORT_LABELS[transport]}]</span>
+      </div>
+
+      <div className="memories-controls">
+        <span className="filter-prompt diag-status">
+          {unavailableReason ? `> ${unavailableReason}` : "> Live, updated every second"}
+        </span>
+        <button
+          className="refresh-button"
+          onClick={downloadSnapshot}
+          disabled={!isConnected}
+          title="Download the full getStats() report as JSON"
+        >
+          [SNAPSHOT]
+        </button>
+      </div>
+
+      {stats && (
+        <div className="diag-grid">
+          <div className="diag-section">
+            <div className="diag-section-title">CONNECTION</div>
+            <StatRow label="ICE STATE" value={stats.ice_connection_state} />
+            <StatRow
+              label="PATH"
+              value={pathLabel}
+              className={stats.local_candidate_type === "relay" ? "diag-warn" : ""}
+            />
+            <StatRow
+              label="RTT"
+              value={format(stats.rtt_ms, " ms")}
+              className={levelClass(stats.rtt_ms, RTT_WARN_MS)}
+            />
+          </div>
+          <AudioSection title="INCOMING AUDIO (BOT)" audio={stats.inbound_audio} />
+          <AudioSection title="OUTGOING AUDIO (MIC)" audio={stats.outbound_audio} />
+        </div>
+      )}
+    </div>
+  );
+};
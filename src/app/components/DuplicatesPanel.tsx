@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { findDuplicateGroups } from "@/lib/duplicates";
+
+export interface DuplicateField<T> {
+  key: keyof T & string;
+  label: string;
+  format?: (record: T) => string;
+}
+
+interface DuplicatesPanelProps<T extends { id: string }> {
+  // In preference order: the first entry of a group is the one kept by default
+  records: T[];
+  // Text that duplicates are detected on
+  getText: (record: T) => string;
+  // Fields whose surviving value can be picked from any entry in a group
+  fields: DuplicateField<T>[];
+  formatTimestamp: (record: T) => string;
+  // Keep `keep` with `values` applied and remove the rest
+  onMerge: (keep: T, values: Partial<T>, remove: T[]) => Promise<void>;
+}
+
+const groupKey = (group: { id: string }[]) => group.map((record) => record.id).join("|");
+
+// Groups of similar entries, each mergeable into one
+export const DuplicatesPanel = <T extends { id: string }>({
+  records,
+  getText,
+  fields,
+  formatTimestamp,
+  onMerge,
+}: DuplicatesPanelProps<T>) => {
+  // For each group, which entry each field's value comes from
+  const [choices, setChoices] = useState<Record<string, Record<string, string>>>({});
+  const [ignored, setIgnored] = useState<Set<string>>(new Set());
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const groups = useMemo(
+    () => findDuplicateGroups(records, getText).filter((group) => !ignored.has(groupKey(group))),
+    [records, getText, ignored]
+  );
+
+  const sourceFor = (group: T[], field: string) =>
+    group.find((record) => record.id === choices[groupKey(group)]?.[field]) ?? group[0];
+
+  const choose = (group: T[], field: string, recordId: string) => {
+    const key = groupKey(group);
+    setChoices((prev) => ({ ...prev, [key]: { ...prev[key], [field]: recordId } }));
+  };
+
+  const merge = async (group: T[]) => {
+    const key = groupKey(group);
+    const [keep, ...remove] = group;
+    const values: Partial<T> = {};
+    fields.forEach((field) => {
+      const value = sourceFor(group, field.key)[field.key];
+      if (value !== keep[field.key]) values[field.key] = value;
+    });
+
+    setMergingKey(key);
+    try {
+      await onMerge(keep, values, remove);
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  if (groups.length === 0) {
+    return (
+      <div className="memories-empty">
+        <span className="content" style={{ opacity: 0.5 }}>
+          {">"} No duplicates found
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {groups.map((group) => {
+        const key = groupKey(group);
+        return (
+          <div key={key} className="duplicate-group">
+            <div className="duplicate-group-header">
+              <span>{group.length} similar entries - pick the values to keep</span>
+              <button
+                className="duplicate-merge-btn"
+                onClick={() => merge(group)}
+                disabled={mergingKey !== null}
+              >
+                {mergingKey === key ? "[MERGING...]" : "[MERGE]"}
+              </button>
+              <button
+                className="duplicate-ignore-btn"
+                onClick={() => setIgnored((prev) => new Set(prev).add(key))}
+                title="These aren't duplicates"
+              >
+                [IGNORE]
+              </button>
+            </div>
+            {group.map((record) => (
+              <div key={record.id} className="duplicate-row">
+                <span className="memory-timestamp">[{formatTimestamp(record)}]</span>
+                {fields.map((field) => (
+                  <button
+                    key={field.key}
+                    className={`duplicate-choice ${sourceFor(group, field.key).id === record.id ? "chosen" : ""}`}
+                    onClick={() => choose(group, field.key, record.id)}
+                    title={`Keep this ${field.label}`}
+                  >
+                    {field.format ? field.format(record) : String(record[field.key])}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+
+interface LockScreenProps {
+  setupRequired: boolean;
+  onLogin: (username: string, password: string) => Promise<void>;
+  onSetup: (username: string, displayName: string, password: string) => Promise<void>;
+}
+
+export const LockScreen = ({ setupRequired, onLogin, onSetup }: LockScreenProps) => {
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const usernameRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    usernameRef.current?.focus();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    if (setupRequired && password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (setupRequired) {
+        await onSetup(username, displayName, password);
+      } else {
+        await onLogin(username, password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Login failed");
+      setPassword("");
+      setConfirmPassword("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="lock-screen crt-container">
+      <form className="lock-form" onSubmit={handleSubmit}>
+        <div className="section-header">
+          {setupRequired ? "// CREATE FIRST ACCOUNT" : "// LOCKED"}
+        </div>
+
+        {setupRequired && (
+          <p className="lock-hint">
+            {">"} No accounts yet. The first account can add the rest of the household.
+          </p>
+        )}
+
+        <label className="lock-field">
+          <span className="filter-prompt">USER:</span>
+          <input
+            ref={usernameRef}
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoCapitalize="none"
+            className="lock-input"
+            disabled={isSubmitting}
+          />
+        </label>
+
+        {setupRequired && (
+          <label className="lock-field">
+            <span className="filter-prompt">NAME:</span>
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              autoComplete="name"
+              className="lock-input"
+              disabled={isSubmitting}
+            />
+          </label>
+        )}
+
+        <label className="lock-field">
+          <span className="filter-prompt">PASS:</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={setupRequired ? "new-password" : "current-password"}
+            className="lock-input"
+            disabled={isSubmitting}
+          />
+        </label>
+
+        {setupRequired && (
+          <label className="lock-field">
+            <span className="filter-prompt">AGAIN:</span>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              className="lock-input"
+              disabled={isSubmitting}
+            />
+          </label>
+        )}
+
+        {error && (
+          <div className="lock-error">
+            <span className="error-text">{">"} {error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          className="ascii-button lock-submit"
+          disabled={isSubmitting || !username || !password}
+        >
+          [ {isSubmitting ? "Checking..." : setupRequired ? "Create Account" : "Unlock"} ]
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -1,7 +1,21 @@
 "use client";
 
-import { useState, useMemo, useRef, useEffect, useCallback } from "react";
-import type { Memory } from "../hooks/useMemories";
+import { Fragment, useState, useMemo, useRef, useEffect, useCallback } from "react";
+import type { LocationChange, Memory } from "../hooks/useMemories";
+import {
+  allLocationPaths,
+  buildLocationTree,
+  canonicalLocation,
+  findLocationNode,
+  formatLocation,
+  isWithin,
+  locationKey,
+  parseLocation,
+  relocate,
+  type LocationNode,
+} from "@/lib/locations";
+import { DuplicatesPanel, type DuplicateField } from "./DuplicatesPanel";
+import { fuzzySearch, highlightParts, type MatchRange, type SearchField } from "@/lib/fuzzySearch";
 
 interface MemoriesTableProps {
   memories: Memory[];
@@ -11,15 +25,50 @@ interface MemoriesTableProps {
   onAddMemory: (item: string, location: string) => Promise<void>;
   onDeleteMemory: (id: string) => Promise<void>;
   onUpdateMemory: (id: string, updates: { item?: string; location?: string }) => Promise<void>;
+  locationHistory: Record<string, LocationChange[]>;
+  onLoadHistory: (id: string) => Promise<void>;
 }
 
 type SortDirection = "asc" | "desc";
+type ViewMode = "tree" | "list";
 
 // Undo operation types
 type UndoOperation =
   | { type: "delete"; memory: Memory }
   | { type: "add"; memoryId: string }
-  | { type: "edit"; memoryId: string; field: "item" | "location"; oldValue: string; newValue: string };
+  | { type: "edit"; memoryId: string; field: "item" | "location"; oldValue: string; newValue: string }
+  | { type: "move"; moves: { memoryId: string; oldValue: string }[] }
+  | { type: "merge"; kept: Memory; removed: Memory[] };
+
+const MAX_SUGGESTIONS = 6;
+
+// Item names count for more than where things are
+const SEARCH_FIELDS: SearchField<Memory>[] = [
+  { name: "item", weight: 1, get: (m) => m.item },
+  { name: "location", weight: 0.6, get: (m) => m.location },
+];
+
+// Duplicates are found on the item name; the location can come from any entry
+const memoryItemText = (m: Memory) => m.item;
+const DUPLICATE_FIELDS: DuplicateField<Memory>[] = [
+  { key: "item", label: "name" },
+  { key: "location", label: "location" },
+];
+
+// Text with the parts that matched the filter highlighted
+const Highlighted = ({ text, ranges }: { text: string; ranges?: MatchRange[] }) => (
+  <>
+    {highlightParts(text, ranges).map((part, i) =>
+      part.highlighted ? (
+        <mark key={i} className="search-highlight">
+          {part.text}
+        </mark>
+      ) : (
+        part.text
+      )
+    )}
+  </>
+);
 
 export const MemoriesTable = ({
   memories,
@@ -29,11 +78,34 @@ export const MemoriesTable = ({
   onAddMemory,
   onDeleteMemory,
   onUpdateMemory,
+  locationHistory,
+  onLoadHistory,
 }: MemoriesTableProps) => {
   const [filter, setFilter] = useState("");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [newMemoryInput, setNewMemoryInput] = useState("");
   const [isAdding, setIsAdding] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(-1);
+
+  // Location tree state
+  const [viewMode, setViewMode] = useState<ViewMode>("tree");
+  const [focusPath, setFocusPath] = useState<string[]>([]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [movingPath, setMovingPath] = useState<string[] | null>(null);
+  const [moveValue, setMoveValue] = useState("");
+  const [isMoving, setIsMoving] = useState(false);
+
+  // Memory whose location history drawer is open
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const historyLocation = memories.find((m) => m.id === historyId)?.location;
+
+  // Load the timeline when the drawer opens, and again when the item moves
+  useEffect(() => {
+    if (historyId) onLoadHistory(historyId);
+  }, [historyId, historyLocation, onLoadHistory]);
+
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
   // Editing state
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -102,6 +174,22 @@ export const MemoriesTable = ({
             [operation.field]: operation.oldValue,
           });
           break;
+        case "move":
+          // Put every moved item back where it was
+          for (const { memoryId, oldValue } of operation.moves) {
+            await onUpdateMemory(memoryId, { location: oldValue });
+          }
+          break;
+        case "merge":
+          // Restore the kept entry and re-create the merged-away ones
+          await onUpdateMemory(operation.kept.id, {
+            item: operation.kept.item,
+            location: operation.kept.location,
+          });
+          for (const memory of operation.removed) {
+            await onAddMemory(memory.item, memory.location);
+          }
+          break;
       }
       // Remove from undo stack on success
       setUndoStack((prev) => prev.slice(0, -1));
@@ -121,7 +209,7 @@ export const MemoriesTable = ({
     }
 
     const item = newMemoryInput.substring(0, slashIndex).trim();
-    const location = newMemoryInput.substring(slashIndex + 1).trim();
+    const location = canonicalLocation(newMemoryInput.substring(slashIndex + 1), knownLocations);
 
     if (!item || !location) return;
 
@@ -172,6 +260,43 @@ export const MemoriesTable = ({
     }
   };
 
+  // Merge duplicates into `keep`, deleting the others; undone as one step
+  const handleMerge = async (keep: Memory, values: Partial<Memory>, remove: Memory[]) => {
+    const removed: Memory[] = [];
+    let updated = false;
+    try {
+      if (values.item !== undefined || values.location !== undefined) {
+        await onUpdateMemory(keep.id, { item: values.item, location: values.location });
+        updated = true;
+      }
+      for (const memory of remove) {
+        await onDeleteMemory(memory.id);
+        removed.push(memory);
+      }
+    } catch {
+      // Error handling done in hook; whatever did change can still be undone
+    } finally {
+      if (updated || removed.length > 0) pushUndo({ type: "merge", kept: keep, removed });
+    }
+  };
+
+  // Put a memory back in a location from its history
+  const handleRevert = async (memory: Memory, location: string) => {
+    if (location === memory.location) return;
+    try {
+      await onUpdateMemory(memory.id, { location });
+      pushUndo({
+        type: "edit",
+        memoryId: memory.id,
+        field: "location",
+        oldValue: memory.location,
+        newValue: location,
+      });
+    } catch {
+      // Error handling done in hook
+    }
+  };
+
   const startEditing = (memory: Memory, field: "item" | "location") => {
     setEditingId(memory.id);
     setEditingField(field);
@@ -190,7 +315,8 @@ export const MemoriesTable = ({
   const saveEditing = async () => {
     if (!editingId || !editingField) return;
 
-    const trimmedValue = editValue.trim();
+    const trimmedValue =
+      editingField === "location" ? canonicalLocation(editValue, knownLocations) : editValue.trim();
     if (!trimmedValue || trimmedValue === originalValue) {
       cancelEditing();
       return;
@@ -222,13 +348,98 @@ export const MemoriesTable = ({
     }
   };
 
+  // Known locations matching what's typed after the "/" in the add input
+  const knownLocations = useMemo(() => memories.map((m) => m.location), [memories]);
+  const locationPaths = useMemo(() => allLocationPaths(knownLocations), [knownLocations]);
+
+  const suggestions = useMemo(() => {
+    const slashIndex = newMemoryInput.indexOf("/");
+    if (slashIndex === -1) return [];
+    const typed = formatLocation(parseLocation(newMemoryInput.substring(slashIndex + 1))).toLowerCase();
+    return locationPaths
+      .filter((path) => path.toLowerCase().includes(typed) && path.toLowerCase() !== typed)
+      .slice(0, MAX_SUGGESTIONS);
+  }, [newMemoryInput, locationPaths]);
+
+  const acceptSuggestion = (path: string) => {
+    const item = newMemoryInput.substring(0, newMemoryInput.indexOf("/")).trim();
+    setNewMemoryInput(`${item} / ${path}`);
+    setHighlightedSuggestion(-1);
+    addInputRef.current?.focus();
+  };
+
   const handleAddKeyDown = (e: React.KeyboardEvent) => {
+    const hasSuggestions = showSuggestions && suggestions.length > 0;
+
+    if (hasSuggestions && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlightedSuggestion((prev) => (prev + step + suggestions.length) % suggestions.length);
+    } else if (hasSuggestions && e.key === "Tab") {
+      e.preventDefault();
+      acceptSuggestion(suggestions[Math.max(highlightedSuggestion, 0)]);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (hasSuggestions && highlightedSuggestion >= 0) {
+        acceptSuggestion(suggestions[highlightedSuggestion]);
+      } else {
+        setShowSuggestions(false);
+        handleAddMemory();
+      }
+    } else if (e.key === "Escape") {
+      setShowSuggestions(false);
+    }
+  };
+
+  // Move everything filed at or below `from` (the "move all" bulk action)
+  const handleMoveAll = async () => {
+    const from = movingPath;
+    const to = parseLocation(canonicalLocation(moveValue, knownLocations));
+    setMovingPath(null);
+    setMoveValue("");
+    if (!from || to.length === 0 || locationKey(to) === locationKey(from)) return;
+
+    const affected = memories.filter((m) => isWithin(parseLocation(m.location), from));
+    const moves: { memoryId: string; oldValue: string }[] = [];
+    setIsMoving(true);
+    try {
+      for (const memory of affected) {
+        await onUpdateMemory(memory.id, { location: relocate(memory.location, from, to) });
+        moves.push({ memoryId: memory.id, oldValue: memory.location });
+      }
+    } catch {
+      // Error handling done in hook; what did move can still be undone
+    } finally {
+      if (moves.length > 0) pushUndo({ type: "move", moves });
+      setIsMoving(false);
+      setFocusPath((prev) => (isWithin(prev, from) ? to : prev));
+    }
+  };
+
+  const handleMoveKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       e.preventDefault();
-      handleAddMemory();
+      handleMoveAll();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setMovingPath(null);
+      setMoveValue("");
     }
   };
 
+  const toggleCollapsed = (path: string[]) => {
+    const key = locationKey(path);
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
   const formatTimestamp = (timestamp: string) => {
     try {
       const date = new Date(timestamp);
@@ -242,26 +453,217 @@ export const MemoriesTable = ({
     }
   };
 
-  const filteredMemories = useMemo(() => {
-    const lowerFilter = filter.toLowerCase();
-
-    return memories
-      .filter(
-        (m) =>
-          m.item.toLowerCase().includes(lowerFilter) ||
-          m.location.toLowerCase().includes(lowerFilter)
-      )
-      .sort((a, b) => {
-        const timeA = new Date(a.timestamp || a.created_at || 0).getTime();
-        const timeB = new Date(b.timestamp || b.created_at || 0).getTime();
-        return sortDirection === "desc" ? timeB - timeA : timeA - timeB;
-      });
+  // Fuzzy matches, best first; equally good matches (and everything, with no
+  // filter) stay in time order
+  const searchResults = useMemo(() => {
+    const byTime = [...memories].sort((a, b) => {
+      const timeA = new Date(a.timestamp || a.created_at || 0).getTime();
+      const timeB = new Date(b.timestamp || b.created_at || 0).getTime();
+      return sortDirection === "desc" ? timeB - timeA : timeA - timeB;
+    });
+    return fuzzySearch(byTime, filter, SEARCH_FIELDS);
   }, [memories, filter, sortDirection]);
 
+  // Newest entry of a duplicate group is kept by default
+  const newestFirst = useMemo(
+    () =>
+      [...memories].sort(
+        (a, b) =>
+          new Date(b.timestamp || b.created_at || 0).getTime() -
+          new Date(a.timestamp || a.created_at || 0).getTime()
+      ),
+    [memories]
+  );
+
+  const filteredMemories = useMemo(() => searchResults.map((r) => r.record), [searchResults]);
+  const searchHighlights = useMemo(
+    () => new Map(searchResults.map((r) => [r.record.id, r.highlights])),
+    [searchResults]
+  );
+
   const toggleSort = () => {
     setSortDirection((prev) => (prev === "desc" ? "asc" : "desc"));
   };
 
+  const memoriesById = useMemo(
+    () => new Map(filteredMemories.map((m) => [m.id, m])),
+    [filteredMemories]
+  );
+
+  // Tree of the filtered memories; the focused node falls back to the root
+  // once nothing is filed there any more
+  const locationTree = useMemo(() => buildLocationTree(filteredMemories), [filteredMemories]);
+  const focusNode = findLocationNode(locationTree, focusPath) ?? locationTree;
+
+  const renderLocationHistory = (memory: Memory) => {
+    const loaded = locationHistory[memory.id];
+    // Newest first; the last entry is where the item is now
+    const history = [...(loaded ?? [])].reverse();
+    return (
+      <div className="memory-history">
+        {!loaded && <div className="memory-history-empty">Loading...</div>}
+        {loaded && history.length <= 1 && (
+          <div className="memory-history-empty">No earlier locations recorded</div>
+        )}
+        {history.length > 1 &&
+          history.map((change, i) => (
+            <div
+              key={`${change.changed_at}-${i}`}
+              className={`memory-history-entry ${i === 0 ? "current" : ""}`}
+            >
+              <span className="memory-timestamp">[{formatTimestamp(change.changed_at)}]</span>
+              <span className="memory-location">{change.location}</span>
+              {change.changed_by && <span className="memory-history-actor">by {change.changed_by}</span>}
+              {i === 0 ? (
+                <span className="memory-history-current">NOW</span>
+              ) : (
+                change.location !== memory.location && (
+                  <button
+                    className="memory-history-revert"
+                    onClick={() => handleRevert(memory, change.location)}
+                    title="Move the item back here"
+                  >
+                    [REVERT]
+                  </button>
+                )
+              )}
+            </div>
+          ))}
+      </div>
+    );
+  };
+
+  const renderMemoryRow = (memory: Memory) => (
+    <Fragment key={memory.id}>
+      <div className="memory-row">
+        <span className="memory-timestamp">
+          [{formatTimestamp(memory.timestamp || memory.created_at || "")}]
+        </span>
+
+        {/* Editable Item */}
+        {editingId === memory.id && editingField === "item" ? (
+          <input
+            ref={editInputRef}
+            type="text"
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            onBlur={cancelEditing}
+            className="memory-edit-input memory-item-edit"
+          />
+        ) : (
+          <span
+            className="memory-item memory-editable"
+            onClick={() => startEditing(memory, "item")}
+            title="Click to edit"
+          >
+            <Highlighted text={memory.item} ranges={searchHighlights.get(memory.id)?.item} />
+          </span>
+        )}
+
+        <span className="memory-arrow">→</span>
+
+        {/* Editable Location */}
+        {editingId === memory.id && editingField === "location" ? (
+          <input
+            ref={editInputRef}
+            type="text"
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            onBlur={cancelEditing}
+            className="memory-edit-input memory-location-edit"
+          />
+        ) : (
+          <span
+            className="memory-location memory-editable"
+            onClick={() => startEditing(memory, "location")}
+            title="Click to edit"
+          >
+            <Highlighted text={memory.location} ranges={searchHighlights.get(memory.id)?.location} />
+          </span>
+        )}
+
+        {/* Location history toggle */}
+        <button
+          className={`memory-history-btn ${historyId === memory.id ? "open" : ""}`}
+          onClick={() => setHistoryId((prev) => (prev === memory.id ? null : memory.id))}
+          title="Where this item has been"
+        >
+          [HIST]
+        </button>
+
+        {/* Delete button */}
+        <button
+          className="memory-delete-btn"
+          onClick={() => handleDelete(memory)}
+          title="Delete this memory"
+        >
+          [DEL]
+        </button>
+      </div>
+      {historyId === memory.id && renderLocationHistory(memory)}
+    </Fragment>
+  );
+
+  const renderLocationNode = (node: LocationNode, depth: number): React.ReactNode => {
+    const key = locationKey(node.path);
+    const isCollapsed = collapsed.has(key);
+    const isMovingHere = movingPath !== null && locationKey(movingPath) === key;
+
+    return (
+      <div key={key} className="location-node" style={{ marginLeft: depth > 0 ? "1.2rem" : 0 }}>
+        <div className="location-node-header">
+          <button className="location-toggle" onClick={() => toggleCollapsed(node.path)}>
+            {isCollapsed ? "[+]" : "[-]"}
+          </button>
+          <span
+            className="location-node-name"
+            onClick={() => setFocusPath(node.path)}
+            title="Show only this location"
+          >
+            {node.name}
+          </span>
+          <span className="location-node-count">({node.totalCount})</span>
+          {isMovingHere ? (
+            <input
+              type="text"
+              autoFocus
+              value={moveValue}
+              onChange={(e) => setMoveValue(e.target.value)}
+              onKeyDown={handleMoveKeyDown}
+              onBlur={() => setMovingPath(null)}
+              list="memory-location-paths"
+              placeholder="move everything to..."
+              className="memory-edit-input location-move-input"
+            />
+          ) : (
+            <button
+              className="location-move-btn"
+              onClick={() => {
+                setMovingPath(node.path);
+                setMoveValue("");
+              }}
+              disabled={isMoving}
+              title="Move all items from this location"
+            >
+              {isMoving ? "[MOVING...]" : "[MOVE ALL]"}
+            </button>
+          )}
+        </div>
+        {!isCollapsed && (
+          <>
+            {node.items.map((id) => {
+              const memory = memoriesById.get(id);
+              return memory ? renderMemoryRow(memory) : null;
+            })}
+            {node.children.map((child) => renderLocationNode(child, depth + 1))}
+          </>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="memories-container">
       <div className="section-header">
@@ -278,13 +680,27 @@ export const MemoriesTable = ({
             type="text"
             value={filter}
             onChange={(e) => setFilter(e.target.value)}
-            placeholder="item or location..."
+            placeholder="item or location (typos ok)..."
             className="filter-input"
           />
         </div>
         <button className="sort-button" onClick={toggleSort}>
           TIME {sortDirection === "desc" ? "▼" : "▲"}
         </button>
+        <button
+          className="sort-button"
+          onClick={() => setViewMode((prev) => (prev === "tree" ? "list" : "tree"))}
+          title="Switch between the location tree and a flat list"
+        >
+          VIEW: {viewMode === "tree" ? "TREE" : "LIST"}
+        </button>
+        <button
+          className="sort-button"
+          onClick={() => setShowDuplicates((prev) => !prev)}
+          title="Find and merge entries for the same item"
+        >
+          {showDuplicates ? "DONE" : "DUPES"}
+        </button>
         <button
           className="undo-button"
           onClick={handleUndo}
@@ -305,7 +721,7 @@ export const MemoriesTable = ({
           </div>
         )}
 
-        {!error && filteredMemories.length === 0 && !isLoading && (
+        {!error && !showDuplicates && filteredMemories.length === 0 && !isLoading && (
           <div className="memories-empty">
             <span className="content" style={{ opacity: 0.5 }}>
               {">"} {filter ? "No matches found" : "No memories stored yet"}
@@ -313,66 +729,38 @@ export const MemoriesTable = ({
           </div>
         )}
 
-        {filteredMemories.map((memory) => (
-          <div key={memory.id} className="memory-row">
-            <span className="memory-timestamp">
-              [{formatTimestamp(memory.timestamp || memory.created_at || "")}]
-            </span>
-
-            {/* Editable Item */}
-            {editingId === memory.id && editingField === "item" ? (
-              <input
-                ref={editInputRef}
-                type="text"
-                value={editValue}
-                onChange={(e) => setEditValue(e.target.value)}
-                onKeyDown={handleEditKeyDown}
-                onBlur={cancelEditing}
-                className="memory-edit-input memory-item-edit"
-              />
-            ) : (
-              <span
-                className="memory-item memory-editable"
-                onClick={() => startEditing(memory, "item")}
-                title="Click to edit"
-              >
-                {memory.item}
-              </span>
-            )}
-
-            <span className="memory-arrow">→</span>
-
-            {/* Editable Location */}
-            {editingId === memory.id && editingField === "location" ? (
-              <input
-                ref={editInputRef}
-                type="text"
-                value={editValue}
-                onChange={(e) => setEditValue(e.target.value)}
-                onKeyDown={handleEditKeyDown}
-                onBlur={cancelEditing}
-                className="memory-edit-input memory-location-edit"
-              />
-            ) : (
-              <span
-                className="memory-location memory-editable"
-                onClick={() => startEditing(memory, "location")}
-                title="Click to edit"
-              >
-                {memory.location}
-              </span>
-            )}
+        {showDuplicates && (
+          <DuplicatesPanel
+            records={newestFirst}
+            getText={memoryItemText}
+            fields={DUPLICATE_FIELDS}
+            formatTimestamp={(m) => formatTimestamp(m.timestamp || m.created_at || "")}
+            onMerge={handleMerge}
+          />
+        )}
 
-            {/* Delete button */}
-            <button
-              className="memory-delete-btn"
-              onClick={() => handleDelete(memory)}
-              title="Delete this memory"
-            >
-              [DEL]
-            </button>
-          </div>
-        ))}
+        {!showDuplicates && viewMode === "list" && filteredMemories.map(renderMemoryRow)}
+
+        {!showDuplicates && viewMode === "tree" && focusNode && (
+          <>
+            <div className="location-breadcrumbs">
+              {[[], ...focusPath.map((_, i) => focusPath.slice(0, i + 1))].map((path, i) => (
+                <span key={locationKey(path)}>
+                  {i > 0 && <span className="location-breadcrumb-sep">{">"}</span>}
+                  <button
+                    className={`location-breadcrumb ${i === focusPath.length ? "current" : ""}`}
+                    onClick={() => setFocusPath(path)}
+                  >
+                    {i === 0 ? "ALL" : path[path.length - 1]}
+                  </button>
+                </span>
+              ))}
+            </div>
+            {focusPath.length > 0
+              ? renderLocationNode(focusNode, 0)
+              : focusNode.children.map((child) => renderLocationNode(child, 0))}
+          </>
+        )}
       </div>
 
       <div className="memory-add-row">
@@ -381,15 +769,42 @@ export const MemoriesTable = ({
           ref={addInputRef}
           type="text"
           value={newMemoryInput}
-          onChange={(e) => setNewMemoryInput(e.target.value)}
+          onChange={(e) => {
+            setNewMemoryInput(e.target.value);
+            setShowSuggestions(true);
+            setHighlightedSuggestion(-1);
+          }}
           onKeyDown={handleAddKeyDown}
-          placeholder="item / location (e.g., keys / drawer by front door)"
+          onBlur={() => setShowSuggestions(false)}
+          placeholder="item / location (e.g., keys / hallway / key hook)"
           className="memory-add-input"
           disabled={isAdding}
         />
         {isAdding && <span className="memory-adding">SAVING...</span>}
+        {showSuggestions && suggestions.length > 0 && (
+          <div className="location-suggestions">
+            {suggestions.map((path, i) => (
+              <div
+                key={path}
+                className={`location-suggestion ${i === highlightedSuggestion ? "highlighted" : ""}`}
+                // mousedown so the input's blur doesn't hide the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(path);
+                }}
+              >
+                {path}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      <datalist id="memory-location-paths">
+        {locationPaths.map((path) => (
+          <option key={path} value={path} />
+        ))}
+      </datalist>
     </div>
   );
 };
@@ -0,0 +1,184 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+export type SSEConnectionStatus = "connecting" | "connected" | "disconnected";
+
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+type SSEHandler = (data: unknown) => void;
+
+interface SSEContextValue {
+  status: SSEConnectionStatus;
+  subscribe: (eventType: string, handler: SSEHandler) => () => void;
+}
+
+export const SSEContext = createContext<SSEContextValue | null>(null);
+
+interface SSEProviderProps {
+  url?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Owns the single EventSource for this browser tab.
+ *
+ * Hooks and components register handlers per event type through
+ * useSSEEvent() instead of opening their own connection, so a page load
+ * only holds one upstream stream through the /api/events proxy.
+ *
+ * The browser resumes automatically with Last-Event-ID while the EventSource
+ * is retrying. If it gives up (or iOS kills it while the phone is locked) the
+ * provider opens a new one and passes the last seen id as ?lastEventId=, so
+ * the server can replay missed events or answer with a "resync".
+ */
+export const SSEProvider = ({ url = "/api/events", children }: SSEProviderProps) => {
+  const [status, setStatus] = useState<SSEConnectionStatus>("disconnected");
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const handlersRef = useRef<Map<string, Set<SSEHandler>>>(new Map());
+  // Event types that already have a dispatcher attached to the EventSource
+  const attachedTypesRef = useRef<Set<string>>(new Set());
+  const lastEventIdRef = useRef<string | null>(null);
+
+  // Parse the event payload once and fan it out to every handler of that type
+  const dispatch = useCallback((eventType: string, e: MessageEvent) => {
+    if (e.lastEventId) {
+      lastEventIdRef.current = e.lastEventId;
+    }
+
+    const handlers = handlersRef.current.get(eventType);
+    if (!handlers || handlers.size === 0) return;
+
+    let data: unknown = {};
+    if (typeof e.data === "string" && e.data.trim()) {
+      try {
+        data = JSON.parse(e.data);
+      } catch {
+        // Ignore parse errors
+        return;
+      }
+    }
+
+    handlers.forEach((handler) => {
+      try {
+        handler(data);
+      } catch (err) {
+        console.error(`[SSE] Handler for "${eventType}" failed:`, err);
+      }
+    });
+  }, []);
+
+  const attachType = useCallback(
+    (es: EventSource, eventType: string) => {
+      if (attachedTypesRef.current.has(eventType)) return;
+      attachedTypesRef.current.add(eventType);
+      es.addEventListener(eventType, (e) => dispatch(eventType, e as MessageEvent));
+    },
+    [dispatch]
+  );
+
+  useEffect(() => {
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = RECONNECT_MIN_DELAY_MS;
+
+    const connect = () => {
+      const lastEventId = lastEventIdRef.current;
+      const resumeUrl = lastEventId
+        ? `${url}${url.includes("?") ? "&" : "?"}lastEventId=${encodeURIComponent(lastEventId)}`
+        : url;
+
+      setStatus("connecting");
+      const es = new EventSource(resumeUrl);
+      eventSourceRef.current = es;
+      attachedTypesRef.current = new Set();
+
+      es.onopen = () => {
+        reconnectDelay = RECONNECT_MIN_DELAY_MS;
+        setStatus("connected");
+      };
+
+      es.onerror = () => {
+        // EventSource retries on its own while readyState is CONNECTING
+        if (es.readyState !== EventSource.CLOSED) {
+          setStatus("connecting");
+          return;
+        }
+        setStatus("disconnected");
+        scheduleReconnect();
+      };
+
+      // Attach dispatchers for handlers registered before the connection existed
+      handlersRef.current.forEach((_, eventType) => attachType(es, eventType));
+    };
+
+    const scheduleReconnect = () => {
+      if (reconnectTimer) return;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY_MS);
+    };
+
+    // Reconnect right away when a locked phone comes back instead of waiting
+    // for the backoff timer
+    const handleVisibilityChange = () => {
+      if (
+        document.visibilityState === "visible" &&
+        eventSourceRef.current?.readyState === EventSource.CLOSED
+      ) {
+        if (reconnectTimer) {
+          clearTimeout(reconnectTimer);
+          reconnectTimer = null;
+        }
+        reconnectDelay = RECONNECT_MIN_DELAY_MS;
+        connect();
+      }
+    };
+
+    connect();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      eventSourceRef.current?.close();
+      eventSourceRef.current = null;
+      setStatus("disconnected");
+    };
+  }, [url, attachType]);
+
+  const subscribe = useCallback(
+    (eventType: string, handler: SSEHandler) => {
+      let handlers = handlersRef.current.get(eventType);
+      if (!handlers) {
+        handlers = new Set();
+        handlersRef.current.set(eventType, handlers);
+      }
+      handlers.add(handler);
+
+      if (eventSourceRef.current) {
+        attachType(eventSourceRef.current, eventType);
+      }
+
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    [attachType]
+  );
+
+  const value = useMemo(() => ({ status, subscribe }), [status, subscribe]);
+
+  return <SSEContext.Provider value={value}>{children}</SSEContext.Provider>;
+};
@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import type { CheckedEntry, ShoppingEntry } from "../hooks/useShoppingList";
+import { categoryLabel, categoryOrder } from "@/lib/categories";
+
+interface ShoppingListProps {
+  entries: ShoppingEntry[];
+  checked: CheckedEntry[];
+  isLoading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  onCheck: (entry: ShoppingEntry) => Promise<void>;
+  onUncheck: (entry: CheckedEntry) => Promise<void>;
+  onClearChecked: () => void;
+}
+
+// By aisle ("2" before "10"), then name; entries without an aisle go last
+const compareEntries = (a: ShoppingEntry, b: ShoppingEntry) => {
+  if (a.aisle !== b.aisle) {
+    if (a.aisle === null) return 1;
+    if (b.aisle === null) return -1;
+    return a.aisle.localeCompare(b.aisle, undefined, { numeric: true });
+  }
+  return a.name.localeCompare(b.name);
+};
+
+// Entries by category, in walking order
+const groupEntries = (entries: ShoppingEntry[]) => {
+  const groups = new Map<string, ShoppingEntry[]>();
+  entries.forEach((entry) => groups.set(entry.category, [...(groups.get(entry.category) ?? []), entry]));
+  return [...groups.entries()]
+    .sort(([a], [b]) => categoryOrder(a) - categoryOrder(b))
+    .map(([category, items]) => ({ category, items: items.sort(compareEntries) }));
+};
+
+// Plain text version for sharing or saving
+const shoppingListText = (entries: ShoppingEntry[]) =>
+  [
+    "Shopping list",
+    ...groupEntries(entries).flatMap(({ category, items }) => [
+      "",
+      categoryLabel(category),
+      ...items.map(
+        (entry) =>
+          `- ${entry.name}${entry.detail ? ` (${entry.detail})` : ""}${entry.aisle ? ` [aisle ${entry.aisle}]` : ""}`
+      ),
+    ]),
+  ].join("\n");
+
+export const ShoppingList = ({
+  entries,
+  checked,
+  isLoading,
+  error,
+  onRefresh,
+  onCheck,
+  onUncheck,
+  onClearChecked,
+}: ShoppingListProps) => {
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupEntries(entries), [entries]);
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function";
+
+  const run = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusyKey(key);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const share = async () => {
+    try {
+      await navigator.share({ title: "Shopping list", text: shoppingListText(entries) });
+    } catch (err) {
+      // Closing the share sheet isn't an error
+      if (!(err instanceof DOMException && err.name === "AbortError")) {
+        setMessage("Sharing failed");
+      }
+    }
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(shoppingListText(entries));
+      setMessage("Copied");
+    } catch {
+      setMessage("Copy failed");
+    }
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([shoppingListText(entries)], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "shopping-list.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="shopping-container">
+      <div className="section-header">
+        <span>{"// SHOPPING"}</span>
+        <span className="memory-count">
+          {entries.length === 0 ? "Nothing to buy" : entries.length === 1 ? "1 item" : `${entries.length} items`}
+        </span>
+      </div>
+
+      <div className="memories-controls">
+        {canShare && (
+          <button className="undo-button" onClick={share} disabled={entries.length === 0}>
+            SHARE
+          </button>
+        )}
+        <button className="undo-button" onClick={copy} disabled={entries.length === 0}>
+          COPY
+        </button>
+        <button className="undo-button" onClick={download} disabled={entries.length === 0} title="Save as a text file">
+          .TXT
+        </button>
+        <button
+          className="undo-button"
+          onClick={onClearChecked}
+          disabled={checked.length === 0}
+          title="Forget ticked items (they stay restocked)"
+        >
+          CLEAR TICKED{checked.length > 0 ? ` (${checked.length})` : ""}
+        </button>
+        <button className="refresh-button" onClick={onRefresh} disabled={isLoading}>
+          {isLoading ? "LOADING..." : "REFRESH"}
+        </button>
+      </div>
+
+      <div className="memories-list">
+        {error && (
+          <div className="memories-error">
+            <span className="error-text">{">"} Error: {error}</span>
+          </div>
+        )}
+        {message && <div className="shopping-message">{">"} {message}</div>}
+
+        {!error && entries.length === 0 && checked.length === 0 && !isLoading && (
+          <div className="memories-empty">
+            <span className="content" style={{ opacity: 0.5 }}>
+              {">"} Nothing is low or out, and no purchase to-dos
+            </span>
+          </div>
+        )}
+
+        {groups.map(({ category, items }) => (
+          <div key={category} className="shopping-group">
+            <div className="shopping-group-header">
+              {categoryLabel(category).toUpperCase()} ({items.length})
+            </div>
+            {items.map((entry) => (
+              <button
+                key={entry.key}
+                className="shopping-entry"
+                onClick={() => run(entry.key, () => onCheck(entry), "Failed to tick off")}
+                disabled={busyKey !== null}
+                title={entry.stockId ? "Bought - marks the stock entry as OK" : "Bought - completes the to-do"}
+              >
+                <span className="shopping-box">[{busyKey === entry.key ? "." : " "}]</span>
+                <span className="shopping-name">{entry.name}</span>
+                {entry.detail && <span className="shopping-detail">{entry.detail}</span>}
+                {entry.stockId && entry.todoId && <span className="shopping-detail">+ TO-DO</span>}
+                {entry.aisle && <span className="shopping-aisle">AISLE {entry.aisle}</span>}
+              </button>
+            ))}
+          </div>
+        ))}
+
+        {checked.length > 0 && (
+          <div className="shopping-group">
+            <div className="shopping-group-header">IN THE BASKET ({checked.length})</div>
+            {checked.map((entry) => (
+              <button
+                key={entry.key}
+                className="shopping-entry checked"
+                onClick={() => run(entry.key, () => onUncheck(entry), "Failed to untick")}
+                disabled={busyKey !== null}
+                title="Untick - puts the stock level and to-do back"
+              >
+                <span className="shopping-box">[{busyKey === entry.key ? "." : "x"}]</span>
+                <span className="shopping-name">{entry.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,42 @@
 "use client";
 
-import { useState, useMemo, useRef, useEffect, useCallback } from "react";
-import type { Stock, StockLevel } from "../hooks/useStock";
+import { Fragment, useState, useMemo, useRef, useEffect, useCallback } from "react";
+import {
+  hasThresholds,
+  stockCategoryOf,
+  stockLevelOf,
+  type Stock,
+  type StockLevel,
+  type StockDetails,
+  type StockPlacement,
+  type StockUpdate,
+} from "../hooks/useStock";
 import { RetroModal } from "./RetroModal";
+import { DuplicatesPanel, type DuplicateField } from "./DuplicatesPanel";
+import { BarcodeScanner } from "./BarcodeScanner";
+import { deriveStockLevel, displayQuantity, formatQuantity, parseQuantity, stepQuantity } from "@/lib/quantity";
+import { CATEGORIES, categoryLabel, categoryOrder, guessCategory } from "@/lib/categories";
+
+type ViewMode = "groups" | "list";
 
 interface StockTableProps {
   stock: Stock[];
   isLoading: boolean;
   error: string | null;
   onRefresh: () => void;
-  onAddStock: (item: string, quantity: string, stockLevel: StockLevel) => Promise<void>;
+  onAddStock: (item: string, quantity: string, stockLevel: StockLevel, details?: StockDetails) => Promise<void>;
   onDeleteStock: (id: string) => Promise<void>;
-  onUpdateStock: (id: string, updates: { item?: string; quantity?: string; stock_level?: StockLevel }) => Promise<void>;
+  onUpdateStock: (id: string, updates: StockUpdate) => Promise<void>;
 }
 
 // Undo operation types
 type UndoOperation =
   | { type: "delete"; stock: Stock }
   | { type: "add"; stockId: string }
-  | { type: "edit"; stockId: string; field: "item" | "quantity" | "stock_level"; oldValue: string; newValue: string };
+  | { type: "edit"; stockId: string; field: "item" | "quantity" | "stock_level"; oldValue: string; newValue: string }
+  | { type: "merge"; kept: Stock; removed: Stock[] }
+  // Put back several fields at once (thresholds, level and override)
+  | { type: "restore"; stockId: string; previous: StockUpdate };
 
 // Stock level priority for sorting (lower = more urgent)
 const STOCK_LEVEL_PRIORITY: Record<StockLevel, number> = {
@@ -34,6 +52,47 @@ const STOCK_LEVEL_LABELS: Record<StockLevel, string> = {
   sufficient: "OK",
 };
 
+// Level-related fields of an entry as they are now, for undo
+const levelSnapshot = (s: Stock): StockUpdate => ({
+  stock_level: s.stock_level,
+  low_threshold: s.low_threshold ?? null,
+  out_threshold: s.out_threshold ?? null,
+  level_override: s.level_override ?? false,
+});
+
+// Add the derived stock_level to an update, if the entry's level is automatic
+function withDerivedLevel(stockItem: Stock, updates: StockUpdate): StockUpdate {
+  const next = { ...stockItem, ...updates };
+  if (next.level_override) return updates;
+  const level = deriveStockLevel(next.quantity, next);
+  return level ? { ...updates, stock_level: level } : updates;
+}
+
+// "2" -> 2, "" -> null, anything else -> undefined (invalid)
+const parseThresholdInput = (value: string): number | null | undefined => {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const placementOf = (s: Stock): StockPlacement => ({ category: s.category ?? null, aisle: s.aisle ?? null });
+
+// Everything but item, quantity and level, so an entry can be put back exactly
+const detailsOf = (s: Stock): StockDetails => ({
+  low_threshold: s.low_threshold ?? null,
+  out_threshold: s.out_threshold ?? null,
+  level_override: s.level_override ?? false,
+  ...placementOf(s),
+});
+
+// Duplicates are found on the item name; quantity and level can come from any entry
+const stockItemText = (s: Stock) => s.item;
+const DUPLICATE_FIELDS: DuplicateField<Stock>[] = [
+  { key: "item", label: "name" },
+  { key: "quantity", label: "quantity" },
+  { key: "stock_level", label: "level", format: (s) => `[${STOCK_LEVEL_LABELS[s.stock_level]}]` },
+];
+
 export const StockTable = ({
   stock,
   isLoading,
@@ -44,8 +103,13 @@ export const StockTable = ({
   onUpdateStock,
 }: StockTableProps) => {
   const [filter, setFilter] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("");
   const [newStockInput, setNewStockInput] = useState("");
+  // Category for the next added item; "" uses the one guessed from its name
+  const [newCategory, setNewCategory] = useState("");
   const [isAdding, setIsAdding] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>("groups");
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
 
   // Editing state
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -59,6 +123,21 @@ export const StockTable = ({
   const [undoStack, setUndoStack] = useState<UndoOperation[]>([]);
   const [isUndoing, setIsUndoing] = useState(false);
 
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  // Entry whose quantity is being stepped, so quick clicks don't race
+  const [steppingId, setSteppingId] = useState<string | null>(null);
+
+  // Low/out threshold editor
+  const [limitsId, setLimitsId] = useState<string | null>(null);
+  const [lowInput, setLowInput] = useState("");
+  const [outInput, setOutInput] = useState("");
+
+  // Category/aisle editor
+  const [placeId, setPlaceId] = useState<string | null>(null);
+  const [categoryInput, setCategoryInput] = useState("");
+  const [aisleInput, setAisleInput] = useState("");
+
   // Error modal
   const [showError, setShowError] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
@@ -101,7 +180,12 @@ export const StockTable = ({
     try {
       switch (operation.type) {
         case "delete":
-          await onAddStock(operation.stock.item, operation.stock.quantity, operation.stock.stock_level);
+          await onAddStock(
+            operation.stock.item,
+            operation.stock.quantity,
+            operation.stock.stock_level,
+            placementOf(operation.stock)
+          );
           break;
         case "add":
           await onDeleteStock(operation.stockId);
@@ -113,6 +197,21 @@ export const StockTable = ({
             await onUpdateStock(operation.stockId, { [operation.field]: operation.oldValue });
           }
           break;
+        case "restore":
+          await onUpdateStock(operation.stockId, operation.previous);
+          break;
+        case "merge":
+          // Restore the kept entry and re-create the merged-away ones
+          await onUpdateStock(operation.kept.id, {
+            item: operation.kept.item,
+            quantity: operation.kept.quantity,
+            stock_level: operation.kept.stock_level,
+            ...detailsOf(operation.kept),
+          });
+          for (const stockItem of operation.removed) {
+            await onAddStock(stockItem.item, stockItem.quantity, stockItem.stock_level, detailsOf(stockItem));
+          }
+          break;
       }
       setUndoStack((prev) => prev.slice(0, -1));
     } catch {
@@ -154,6 +253,29 @@ export const StockTable = ({
     return { item, quantity, stockLevel };
   };
 
+  // The real id arrives over SSE; the undo entry is matched up below
+  const addStock = async (item: string, quantity: string, stockLevel: StockLevel, placement: StockPlacement) => {
+    await onAddStock(item, quantity, stockLevel, placement);
+    pushUndo({ type: "add", stockId: `pending|||${item}|||${quantity}|||${stockLevel}` });
+  };
+
+  // Picking a level by hand overrides the thresholds until they're saved again
+  const setLevelByHand = async (stockItem: Stock, stockLevel: StockLevel) => {
+    await onUpdateStock(stockItem.id, {
+      stock_level: stockLevel,
+      ...(hasThresholds(stockItem) ? { level_override: true } : {}),
+    });
+    pushUndo({ type: "restore", stockId: stockItem.id, previous: levelSnapshot(stockItem) });
+  };
+
+  const handleMarkLow = async (stockItem: Stock) => {
+    try {
+      await setLevelByHand(stockItem, "running_low");
+    } catch {
+      // Error handling done in hook
+    }
+  };
+
   const handleAddStock = async () => {
     if (!newStockInput.trim() || isAdding) return;
 
@@ -169,10 +291,9 @@ export const StockTable = ({
 
     setIsAdding(true);
     try {
-      await onAddStock(item, quantity, stockLevel);
-      const tempId = `pending|||${item}|||${quantity}|||${stockLevel}`;
-      pushUndo({ type: "add", stockId: tempId });
+      await addStock(item, quantity, stockLevel, { category: newCategory || guessCategory(item) });
       setNewStockInput("");
+      setNewCategory("");
     } catch {
       // Error handling done in hook
     } finally {
@@ -210,6 +331,127 @@ export const StockTable = ({
     }
   };
 
+  // +/- on a parsed quantity ("2 cans" -> "1 can")
+  const handleStep = async (stockItem: Stock, direction: 1 | -1) => {
+    const parsed = parseQuantity(stockItem.quantity);
+    if (!parsed || steppingId) return;
+
+    const quantity = formatQuantity(stepQuantity(parsed, direction));
+    if (quantity === stockItem.quantity) return;
+
+    setSteppingId(stockItem.id);
+    try {
+      await onUpdateStock(stockItem.id, withDerivedLevel(stockItem, { quantity }));
+      pushUndo({
+        type: "restore",
+        stockId: stockItem.id,
+        previous: {
+          quantity: stockItem.quantity,
+          stock_level: stockItem.stock_level,
+          level_override: stockItem.level_override ?? false,
+        },
+      });
+    } catch {
+      // Error handling done in hook
+    } finally {
+      setSteppingId(null);
+    }
+  };
+
+  const openLimits = (stockItem: Stock) => {
+    setLimitsId(stockItem.id);
+    setPlaceId(null);
+    setLowInput(stockItem.low_threshold != null ? String(stockItem.low_threshold) : "");
+    setOutInput(stockItem.out_threshold != null ? String(stockItem.out_threshold) : "");
+  };
+
+  // Save thresholds (null clears them); either way the level goes back to automatic
+  const saveLimits = async (stockItem: Stock, low: number | null, out: number | null) => {
+    try {
+      await onUpdateStock(
+        stockItem.id,
+        withDerivedLevel(stockItem, { low_threshold: low, out_threshold: out, level_override: false })
+      );
+      pushUndo({ type: "restore", stockId: stockItem.id, previous: levelSnapshot(stockItem) });
+      setLimitsId(null);
+    } catch {
+      // Error handling done in hook
+    }
+  };
+
+  const handleLimitsKeyDown = (e: React.KeyboardEvent, stockItem: Stock) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      const low = parseThresholdInput(lowInput);
+      const out = parseThresholdInput(outInput);
+      if (low !== undefined && out !== undefined) saveLimits(stockItem, low, out);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setLimitsId(null);
+    }
+  };
+
+  const openPlacement = (stockItem: Stock) => {
+    setPlaceId(stockItem.id);
+    setLimitsId(null);
+    setCategoryInput(stockCategoryOf(stockItem).category);
+    setAisleInput(stockItem.aisle ?? "");
+  };
+
+  const savePlacement = async (stockItem: Stock) => {
+    const placement = { category: categoryInput, aisle: aisleInput.trim() || null };
+    try {
+      await onUpdateStock(stockItem.id, placement);
+      pushUndo({ type: "restore", stockId: stockItem.id, previous: placementOf(stockItem) });
+      setPlaceId(null);
+    } catch {
+      // Error handling done in hook
+    }
+  };
+
+  const handlePlacementKeyDown = (e: React.KeyboardEvent, stockItem: Stock) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      savePlacement(stockItem);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setPlaceId(null);
+    }
+  };
+
+  const toggleCollapsed = (category: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(category)) {
+        next.delete(category);
+      } else {
+        next.add(category);
+      }
+      return next;
+    });
+  };
+
+  // Merge duplicates into `keep`, deleting the others; undone as one step
+  const handleMerge = async (keep: Stock, values: Partial<Stock>, remove: Stock[]) => {
+    const removed: Stock[] = [];
+    let updated = false;
+    try {
+      const { item, quantity, stock_level } = values;
+      if (item !== undefined || quantity !== undefined || stock_level !== undefined) {
+        await onUpdateStock(keep.id, { item, quantity, stock_level });
+        updated = true;
+      }
+      for (const stockItem of remove) {
+        await onDeleteStock(stockItem.id);
+        removed.push(stockItem);
+      }
+    } catch {
+      // Error handling done in hook; whatever did change can still be undone
+    } finally {
+      if (updated || removed.length > 0) pushUndo({ type: "merge", kept: keep, removed });
+    }
+  };
+
   const startEditing = (stockItem: Stock, field: "item" | "quantity" | "stock_level") => {
     setEditingId(stockItem.id);
     setEditingField(field);
@@ -252,10 +494,13 @@ export const StockTable = ({
       return;
     }
 
-    try {
-      let updates: { item?: string; quantity?: string; stock_level?: StockLevel };
-      let actualNewValue = trimmedValue;
+    const stockItem = stock.find((s) => s.id === editingId);
+    if (!stockItem) {
+      cancelEditing();
+      return;
+    }
 
+    try {
       if (editingField === "stock_level") {
         let stockLevel: StockLevel;
         switch (trimmedValue) {
@@ -272,20 +517,28 @@ export const StockTable = ({
             cancelEditing();
             return;
         }
-        updates = { stock_level: stockLevel };
-        actualNewValue = stockLevel;
+        await setLevelByHand(stockItem, stockLevel);
+      } else if (editingField === "quantity") {
+        await onUpdateStock(editingId, withDerivedLevel(stockItem, { quantity: trimmedValue }));
+        pushUndo({
+          type: "restore",
+          stockId: editingId,
+          previous: {
+            quantity: stockItem.quantity,
+            stock_level: stockItem.stock_level,
+            level_override: stockItem.level_override ?? false,
+          },
+        });
       } else {
-        updates = { [editingField]: trimmedValue };
+        await onUpdateStock(editingId, { item: trimmedValue });
+        pushUndo({
+          type: "edit",
+          stockId: editingId,
+          field: editingField,
+          oldValue: originalValue,
+          newValue: trimmedValue,
+        });
       }
-
-      await onUpdateStock(editingId, updates);
-      pushUndo({
-        type: "edit",
-        stockId: editingId,
-        field: editingField,
-        oldValue: originalValue,
-        newValue: actualNewValue,
-      });
       cancelEditing();
     } catch {
       cancelEditing();
@@ -340,19 +593,264 @@ export const StockTable = ({
     return stock
       .filter(
         (s) =>
-          s.item.toLowerCase().includes(lowerFilter) ||
-          s.quantity.toLowerCase().includes(lowerFilter)
+          (s.item.toLowerCase().includes(lowerFilter) || s.quantity.toLowerCase().includes(lowerFilter)) &&
+          (!categoryFilter || stockCategoryOf(s).category === categoryFilter)
       )
       .sort((a, b) => {
         // First sort by stock level priority (out_of_stock first)
-        const priorityDiff = STOCK_LEVEL_PRIORITY[a.stock_level] - STOCK_LEVEL_PRIORITY[b.stock_level];
+        const priorityDiff =
+          STOCK_LEVEL_PRIORITY[stockLevelOf(a).level] - STOCK_LEVEL_PRIORITY[stockLevelOf(b).level];
         if (priorityDiff !== 0) return priorityDiff;
         // Then by timestamp (newest first within same priority)
         const timeA = new Date(a.timestamp || 0).getTime();
         const timeB = new Date(b.timestamp || 0).getTime();
         return timeB - timeA;
       });
-  }, [stock, filter]);
+  }, [stock, filter, categoryFilter]);
+
+  // Filtered stock by category in store order, each still sorted by scarcity
+  const stockGroups = useMemo(() => {
+    const groups = new Map<string, Stock[]>();
+    filteredStock.forEach((s) => {
+      const { category } = stockCategoryOf(s);
+      groups.set(category, [...(groups.get(category) ?? []), s]);
+    });
+    return [...groups.entries()]
+      .sort(([a], [b]) => categoryOrder(a) - categoryOrder(b))
+      .map(([category, items]) => ({
+        category,
+        items,
+        out: items.filter((s) => stockLevelOf(s).level === "out_of_stock").length,
+        low: items.filter((s) => stockLevelOf(s).level === "running_low").length,
+      }));
+  }, [filteredStock]);
+
+  // Category the next item would get if none is picked
+  const suggestedCategory = guessCategory(newStockInput.split("/")[0]);
+
+  // Newest entry of a duplicate group is kept by default
+  const newestFirst = useMemo(
+    () => [...stock].sort((a, b) => new Date(b.timestamp || 0).getTime() - new Date(a.timestamp || 0).getTime()),
+    [stock]
+  );
+
+  const renderStockRow = (stockItem: Stock) => {
+    const { level, derived } = stockLevelOf(stockItem);
+    const { category, guessed } = stockCategoryOf(stockItem);
+    const unit = parseQuantity(stockItem.quantity)?.unit;
+    // The category shows in the group header, so only the list view repeats it
+    const place = [viewMode === "list" && categoryLabel(category), stockItem.aisle && `aisle ${stockItem.aisle}`]
+      .filter(Boolean)
+      .join(" · ");
+    return (
+      <Fragment key={stockItem.id}>
+        <div className={getRowClassName(level)}>
+          <span className="stock-timestamp">
+            [{formatTimestamp(stockItem.timestamp)}]
+          </span>
+
+          {/* Editable Item */}
+          {editingId === stockItem.id && editingField === "item" ? (
+            <input
+              ref={editInputRef}
+              type="text"
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={cancelEditing}
+              className="stock-edit-input"
+            />
+          ) : (
+            <span
+              className="stock-item stock-editable"
+              onClick={() => startEditing(stockItem, "item")}
+              title="Click to edit"
+            >
+              {stockItem.item}
+            </span>
+          )}
+
+          <span className="stock-arrow">→</span>
+
+          {/* Editable Quantity */}
+          {editingId === stockItem.id && editingField === "quantity" ? (
+            <input
+              ref={editInputRef}
+              type="text"
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={cancelEditing}
+              className="stock-edit-input"
+              style={{ flex: 1 }}
+            />
+          ) : (
+            <span className="stock-quantity-controls">
+              {parseQuantity(stockItem.quantity) && (
+                <button
+                  className="stock-step-btn"
+                  onClick={() => handleStep(stockItem, -1)}
+                  disabled={steppingId !== null}
+                  title="Use one"
+                >
+                  [-]
+                </button>
+              )}
+              <span
+                className="stock-quantity stock-editable"
+                onClick={() => startEditing(stockItem, "quantity")}
+                title="Click to edit"
+              >
+                {displayQuantity(stockItem.quantity)}
+              </span>
+              {parseQuantity(stockItem.quantity) && (
+                <button
+                  className="stock-step-btn"
+                  onClick={() => handleStep(stockItem, 1)}
+                  disabled={steppingId !== null}
+                  title="Add one"
+                >
+                  [+]
+                </button>
+              )}
+            </span>
+          )}
+
+          {/* Editable Stock Level */}
+          {editingId === stockItem.id && editingField === "stock_level" ? (
+            <input
+              ref={editInputRef}
+              type="text"
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={cancelEditing}
+              className="stock-edit-input"
+              style={{ width: 40 }}
+              placeholder="+/-/0"
+            />
+          ) : (
+            <span
+              className="stock-level-indicator stock-editable"
+              onClick={() => startEditing(stockItem, "stock_level")}
+              title={
+                derived
+                  ? "Set from the quantity and limits - click to set by hand (+/-/0)"
+                  : "Click to edit (+/-/0)"
+              }
+            >
+              [{STOCK_LEVEL_LABELS[level]}]
+            </span>
+          )}
+          {hasThresholds(stockItem) && (
+            <span className={`stock-level-source ${derived ? "auto" : "manual"}`}>
+              {derived ? "AUTO" : "MANUAL"}
+            </span>
+          )}
+
+          {place && <span className={`stock-place ${guessed ? "guessed" : ""}`}>{place}</span>}
+
+          {/* Category/aisle editor toggle */}
+          <button
+            className="stock-place-btn"
+            onClick={() => (placeId === stockItem.id ? setPlaceId(null) : openPlacement(stockItem))}
+            title="Set the category and store aisle"
+          >
+            [AISLE]
+          </button>
+
+          {/* Threshold editor toggle */}
+          <button
+            className="stock-limits-btn"
+            onClick={() => (limitsId === stockItem.id ? setLimitsId(null) : openLimits(stockItem))}
+            title="Set when this item counts as low or out"
+          >
+            [LIMITS]
+          </button>
+
+          {/* Delete button */}
+          <button
+            className="stock-delete-btn"
+            onClick={() => handleDelete(stockItem)}
+            title="Delete this stock entry"
+          >
+            [DEL]
+          </button>
+        </div>
+        {limitsId === stockItem.id && (
+          <div className="stock-limits-row" onKeyDown={(e) => handleLimitsKeyDown(e, stockItem)}>
+            <span>LOW AT</span>
+            <input
+              type="number"
+              min={0}
+              value={lowInput}
+              onChange={(e) => setLowInput(e.target.value)}
+              className="stock-edit-input stock-limit-input"
+              autoFocus
+            />
+            <span>OUT AT</span>
+            <input
+              type="number"
+              min={0}
+              value={outInput}
+              onChange={(e) => setOutInput(e.target.value)}
+              className="stock-edit-input stock-limit-input"
+              placeholder="0"
+            />
+            <span className="stock-limits-hint">
+              {!parseQuantity(stockItem.quantity)
+                ? "quantity needs a number for limits to apply"
+                : `${unit ?? "items"} or fewer${stockItem.level_override ? " - saving turns AUTO back on" : ""}`}
+            </span>
+            <button
+              className="stock-limits-action"
+              onClick={() => {
+                const low = parseThresholdInput(lowInput);
+                const out = parseThresholdInput(outInput);
+                if (low !== undefined && out !== undefined) saveLimits(stockItem, low, out);
+              }}
+            >
+              [SAVE]
+            </button>
+            {hasThresholds(stockItem) && (
+              <button className="stock-limits-action" onClick={() => saveLimits(stockItem, null, null)}>
+                [CLEAR]
+              </button>
+            )}
+          </div>
+        )}
+        {placeId === stockItem.id && (
+          <div className="stock-place-row" onKeyDown={(e) => handlePlacementKeyDown(e, stockItem)}>
+            <span>CATEGORY</span>
+            <select
+              value={categoryInput}
+              onChange={(e) => setCategoryInput(e.target.value)}
+              className="stock-category-select"
+              autoFocus
+            >
+              {CATEGORIES.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <span>AISLE</span>
+            <input
+              type="text"
+              value={aisleInput}
+              onChange={(e) => setAisleInput(e.target.value)}
+              className="stock-edit-input stock-limit-input"
+              placeholder="-"
+            />
+            {guessed && <span className="stock-limits-hint">category guessed from the name</span>}
+            <button className="stock-limits-action" onClick={() => savePlacement(stockItem)}>
+              [SAVE]
+            </button>
+          </div>
+        )}
+      </Fragment>
+    );
+  };
 
   const itemCount = stock.length;
 
@@ -376,6 +874,40 @@ export const StockTable = ({
             className="filter-input"
           />
         </div>
+        <select
+          value={categoryFilter}
+          onChange={(e) => setCategoryFilter(e.target.value)}
+          className="stock-category-select"
+          title="Show one category"
+        >
+          <option value="">ALL CATEGORIES</option>
+          {CATEGORIES.map(({ id, label }) => (
+            <option key={id} value={id}>
+              {label.toUpperCase()}
+            </option>
+          ))}
+        </select>
+        <button
+          className="sort-button"
+          onClick={() => setViewMode((prev) => (prev === "groups" ? "list" : "groups"))}
+          title="Switch between category groups and one list by urgency"
+        >
+          VIEW: {viewMode === "groups" ? "GROUPS" : "LIST"}
+        </button>
+        <button
+          className="sort-button"
+          onClick={() => setShowScanner((prev) => !prev)}
+          title="Scan barcodes to add or update items"
+        >
+          {showScanner ? "CLOSE SCAN" : "SCAN"}
+        </button>
+        <button
+          className="sort-button"
+          onClick={() => setShowDuplicates((prev) => !prev)}
+          title="Find and merge entries for the same item"
+        >
+          {showDuplicates ? "DONE" : "DUPES"}
+        </button>
         <button
           className="undo-button"
           onClick={handleUndo}
@@ -389,6 +921,10 @@ export const StockTable = ({
         </button>
       </div>
 
+      {showScanner && (
+        <BarcodeScanner stock={stock} onStep={handleStep} onMarkLow={handleMarkLow} onAdd={addStock} />
+      )}
+
       <div className="stock-list">
         {error && (
           <div className="memories-error">
@@ -396,98 +932,47 @@ export const StockTable = ({
           </div>
         )}
 
-        {!error && filteredStock.length === 0 && !isLoading && (
+        {!error && !showDuplicates && filteredStock.length === 0 && !isLoading && (
           <div className="memories-empty">
             <span className="content" style={{ opacity: 0.5 }}>
-              {">"} {filter ? "No matches found" : "No stock entries yet"}
+              {">"} {filter || categoryFilter ? "No matches found" : "No stock entries yet"}
             </span>
           </div>
         )}
 
-        {filteredStock.map((stockItem) => (
-          <div key={stockItem.id} className={getRowClassName(stockItem.stock_level)}>
-            <span className="stock-timestamp">
-              [{formatTimestamp(stockItem.timestamp)}]
-            </span>
-
-            {/* Editable Item */}
-            {editingId === stockItem.id && editingField === "item" ? (
-              <input
-                ref={editInputRef}
-                type="text"
-                value={editValue}
-                onChange={(e) => setEditValue(e.target.value)}
-                onKeyDown={handleEditKeyDown}
-                onBlur={cancelEditing}
-                className="stock-edit-input"
-              />
-            ) : (
-              <span
-                className="stock-item stock-editable"
-                onClick={() => startEditing(stockItem, "item")}
-                title="Click to edit"
-              >
-                {stockItem.item}
-              </span>
-            )}
-
-            <span className="stock-arrow">→</span>
-
-            {/* Editable Quantity */}
-            {editingId === stockItem.id && editingField === "quantity" ? (
-              <input
-                ref={editInputRef}
-                type="text"
-                value={editValue}
-                onChange={(e) => setEditValue(e.target.value)}
-                onKeyDown={handleEditKeyDown}
-                onBlur={cancelEditing}
-                className="stock-edit-input"
-                style={{ flex: 1 }}
-              />
-            ) : (
-              <span
-                className="stock-quantity stock-editable"
-                onClick={() => startEditing(stockItem, "quantity")}
-                title="Click to edit"
-              >
-                {stockItem.quantity}
-              </span>
-            )}
+        {showDuplicates && (
+          <DuplicatesPanel
+            records={newestFirst}
+            getText={stockItemText}
+            fields={DUPLICATE_FIELDS}
+            formatTimestamp={(s) => formatTimestamp(s.timestamp)}
+            onMerge={handleMerge}
+          />
+        )}
 
-            {/* Editable Stock Level */}
-            {editingId === stockItem.id && editingField === "stock_level" ? (
-              <input
-                ref={editInputRef}
-                type="text"
-                value={editValue}
-                onChange={(e) => setEditValue(e.target.value)}
-                onKeyDown={handleEditKeyDown}
-                onBlur={cancelEditing}
-                className="stock-edit-input"
-                style={{ width: 40 }}
-                placeholder="+/-/0"
-              />
-            ) : (
-              <span
-                className="stock-level-indicator stock-editable"
-                onClick={() => startEditing(stockItem, "stock_level")}
-                title="Click to edit (+/-/0)"
-              >
-                [{STOCK_LEVEL_LABELS[stockItem.stock_level]}]
-              </span>
-            )}
+        {!showDuplicates && viewMode === "list" && filteredStock.map(renderStockRow)}
 
-            {/* Delete button */}
-            <button
-              className="stock-delete-btn"
-              onClick={() => handleDelete(stockItem)}
-              title="Delete this stock entry"
-            >
-              [DEL]
-            </button>
-          </div>
-        ))}
+        {!showDuplicates &&
+          viewMode === "groups" &&
+          stockGroups.map(({ category, items, out, low }) => {
+            const isCollapsed = collapsed.has(category);
+            return (
+              <div key={category} className="stock-category">
+                <div className="stock-category-header">
+                  <button className="stock-category-toggle" onClick={() => toggleCollapsed(category)}>
+                    {isCollapsed ? "[+]" : "[-]"}
+                  </button>
+                  <span className="stock-category-name" onClick={() => toggleCollapsed(category)}>
+                    {categoryLabel(category).toUpperCase()}
+                  </span>
+                  <span className="stock-category-count">({items.length})</span>
+                  {out > 0 && <span className="stock-category-alert out">{out} OUT</span>}
+                  {low > 0 && <span className="stock-category-alert low">{low} LOW</span>}
+                </div>
+                {!isCollapsed && items.map(renderStockRow)}
+              </div>
+            );
+          })}
       </div>
 
       <div className="stock-add-row">
@@ -502,6 +987,20 @@ export const StockTable = ({
           className="stock-add-input"
           disabled={isAdding}
         />
+        <select
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          className="stock-category-select"
+          title="Category for the new item"
+          disabled={isAdding}
+        >
+          <option value="">{categoryLabel(suggestedCategory).toUpperCase()} (SUGGESTED)</option>
+          {CATEGORIES.map(({ id, label }) => (
+            <option key={id} value={id}>
+              {label.toUpperCase()}
+            </option>
+          ))}
+        </select>
         {isAdding && <span className="memory-adding">SAVING...</span>}
       </div>
 
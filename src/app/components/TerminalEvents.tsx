@@ -1,16 +1,18 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import { useSSEConnection, useSSEEvents } from "../hooks/useSSE";
+import type { SSEEventType } from "../hooks/useSSE";
 
 interface SSEEvent {
   id: number;
   timestamp: Date;
-  type: string;
+  type: SSEEventType;
   data: Record<string, unknown>;
 }
 
 // All SSE event types we want to display
-const SSE_EVENT_TYPES = [
+const DISPLAYED_EVENT_TYPES: SSEEventType[] = [
   "connected",
   "turn_counter_updated",
   "client_selected",
@@ -23,11 +25,12 @@ const SSE_EVENT_TYPES = [
   "stock_created",
   "stock_updated",
   "stock_deleted",
+  "resync",
 ];
 
 export const TerminalEvents = () => {
   const [events, setEvents] = useState<SSEEvent[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<"connecting" | "connected" | "disconnected">("disconnected");
+  const connectionStatus = useSSEConnection();
   const containerRef = useRef<HTMLDivElement>(null);
   const eventIdRef = useRef(0);
 
@@ -38,55 +41,18 @@ export const TerminalEvents = () => {
     }
   }, [events]);
 
-  useEffect(() => {
-    // Use proxied SSE endpoint to work in remote/Tailscale environments
-    const sseUrl = "/api/events";
-
-    setConnectionStatus("connecting");
-    const es = new EventSource(sseUrl);
-
-    es.onopen = () => {
-      setConnectionStatus("connected");
-    };
-
-    es.onerror = () => {
-      setConnectionStatus("disconnected");
-    };
-
-    // Add listener for each event type
-    SSE_EVENT_TYPES.forEach((eventType) => {
-      es.addEventListener(eventType, (e) => {
-        try {
-          const data = JSON.parse(e.data);
-          setEvents((prev) => [
-            ...prev,
-            {
-              id: eventIdRef.current++,
-              timestamp: new Date(),
-              type: eventType,
-              data,
-            },
-          ]);
-        } catch {
-          // Handle events with no data
-          setEvents((prev) => [
-            ...prev,
-            {
-              id: eventIdRef.current++,
-              timestamp: new Date(),
-              type: eventType,
-              data: {},
-            },
-          ]);
-        }
-      });
-    });
-
-    return () => {
-      es.close();
-      setConnectionStatus("disconnected");
-    };
-  }, []);
+  // Log every displayed event type from the shared SSE connection
+  useSSEEvents(DISPLAYED_EVENT_TYPES, (eventType, data) => {
+    setEvents((prev) => [
+      ...prev,
+      {
+        id: eventIdRef.current++,
+        timestamp: new Date(),
+        type: eventType,
+        data,
+      },
+    ]);
+  });
 
   const formatTimestamp = (date: Date) => {
     return date.toLocaleTimeString("en-US", {
@@ -125,6 +91,8 @@ export const TerminalEvents = () => {
         return `updated: ${event.data.item || "item"}`;
       case "stock_deleted":
         return `removed: ${event.data.id || "item"}`;
+      case "resync":
+        return `reloading lists (${event.data.reason || "missed events"})`;
       default:
         return JSON.stringify(event.data);
     }
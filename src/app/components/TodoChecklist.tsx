@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import type { ChecklistItem } from "../hooks/useTodos";
+
+interface TodoChecklistProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => Promise<void>;
+}
+
+// Only needs to be unique within one todo; randomUUID isn't available over plain http
+const newItemId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const TodoChecklist = ({ items, onChange }: TodoChecklistProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [newItemInput, setNewItemInput] = useState("");
+  const editInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (editingId) {
+      editInputRef.current?.focus();
+      editInputRef.current?.select();
+    }
+  }, [editingId]);
+
+  const toggleItem = (id: string) =>
+    onChange(items.map((item) => (item.id === id ? { ...item, completed: !item.completed } : item)));
+
+  const removeItem = (id: string) => onChange(items.filter((item) => item.id !== id));
+
+  const addItem = () => {
+    const content = newItemInput.trim();
+    if (!content) return;
+    setNewItemInput("");
+    onChange([...items, { id: newItemId(), content, completed: false }]);
+  };
+
+  const saveEditing = () => {
+    const id = editingId;
+    const content = editValue.trim();
+    setEditingId(null);
+    setEditValue("");
+
+    const item = items.find((i) => i.id === id);
+    if (!item || !content || content === item.content) return;
+    onChange(items.map((i) => (i.id === id ? { ...i, content } : i)));
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      saveEditing();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setEditingId(null);
+      setEditValue("");
+    }
+  };
+
+  const handleAddKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      addItem();
+    }
+  };
+
+  return (
+    <div className="todo-checklist">
+      {items.map((item) => (
+        <div
+          key={item.id}
+          className={`todo-checklist-item ${item.completed ? "todo-completed" : ""}`}
+        >
+          <button
+            className="todo-checkbox"
+            onClick={() => toggleItem(item.id)}
+            title={item.completed ? "Mark as pending" : "Mark as done"}
+          >
+            [{item.completed ? "x" : " "}]
+          </button>
+
+          {editingId === item.id ? (
+            <input
+              ref={editInputRef}
+              type="text"
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              onBlur={saveEditing}
+              className="todo-edit-input"
+            />
+          ) : (
+            <span
+              className="todo-checklist-content"
+              onClick={() => {
+                setEditingId(item.id);
+                setEditValue(item.content);
+              }}
+              title="Click to edit"
+            >
+              {item.content}
+            </span>
+          )}
+
+          <button
+            className="todo-delete-btn"
+            onClick={() => removeItem(item.id)}
+            title="Remove this step"
+          >
+            [x]
+          </button>
+        </div>
+      ))}
+
+      <div className="todo-checklist-add">
+        <span className="memory-prompt">{">"}</span>
+        <input
+          type="text"
+          value={newItemInput}
+          onChange={(e) => setNewItemInput(e.target.value)}
+          onKeyDown={handleAddKeyDown}
+          placeholder="Add a checklist step..."
+          className="todo-checklist-input"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import type { TodoList } from "../hooks/useTodoLists";
+
+interface TodoListSwitcherProps {
+  lists: TodoList[];
+  activeList: string | null;
+  defaultList: string | null;
+  onSelectList: (name: string) => void;
+  onCreateList: (name: string) => Promise<void>;
+  onDeleteList: (name: string) => Promise<void>;
+  onSetDefaultList: (name: string) => Promise<void>;
+}
+
+export const TodoListSwitcher = ({
+  lists,
+  activeList,
+  defaultList,
+  onSelectList,
+  onCreateList,
+  onDeleteList,
+  onSetDefaultList,
+}: TodoListSwitcherProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newListName, setNewListName] = useState("");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isCreating) inputRef.current?.focus();
+  }, [isCreating]);
+
+  // The delete confirmation lapses after a few seconds
+  useEffect(() => {
+    if (!confirmingDelete) return;
+    const timeout = setTimeout(() => setConfirmingDelete(false), 3000);
+    return () => clearTimeout(timeout);
+  }, [confirmingDelete]);
+
+  const showError = (message: string) => {
+    setErrorMessage(message);
+    setTimeout(() => setErrorMessage(null), 3000);
+  };
+
+  const run = async (action: () => Promise<void>, failureMessage: string) => {
+    try {
+      await action();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : failureMessage);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newListName.trim();
+    setIsCreating(false);
+    setNewListName("");
+    if (!name) return;
+    await run(() => onCreateList(name), "Failed to create list");
+  };
+
+  const handleCreateKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleCreate();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setIsCreating(false);
+      setNewListName("");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeList) return;
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    setConfirmingDelete(false);
+    await run(() => onDeleteList(activeList), "Failed to delete list");
+  };
+
+  // Servers without named lists get the single list as before
+  if (lists.length === 0) return null;
+
+  const isDefault = activeList === defaultList;
+
+  return (
+    <div className="todo-lists">
+      {lists.map((list) => (
+        <button
+          key={list.name}
+          className={`todo-list-tab ${list.name === activeList ? "active" : ""}`}
+          onClick={() => onSelectList(list.name)}
+          title={`${list.pending_count} pending of ${list.total_count}${list.name === defaultList ? " (default list)" : ""}`}
+        >
+          {list.name}
+          {list.name === defaultList && "*"}
+          <span className="todo-list-count">{list.pending_count}</span>
+        </button>
+      ))}
+
+      {isCreating ? (
+        <input
+          ref={inputRef}
+          type="text"
+          value={newListName}
+          onChange={(e) => setNewListName(e.target.value)}
+          onKeyDown={handleCreateKeyDown}
+          onBlur={handleCreate}
+          placeholder="List name..."
+          className="todo-list-input"
+        />
+      ) : (
+        <button className="todo-list-action" onClick={() => setIsCreating(true)} title="Create a list">
+          [+ LIST]
+        </button>
+      )}
+
+      <span className="todo-lists-spacer" />
+
+      {errorMessage && <span className="todo-lists-error">{errorMessage}</span>}
+
+      <button
+        className="todo-list-action"
+        onClick={() => activeList && run(() => onSetDefaultList(activeList), "Failed to change the default list")}
+        disabled={!activeList || isDefault}
+        title={isDefault ? "Already the default list" : "New voice to-dos go to this list"}
+      >
+        [DEFAULT]
+      </button>
+      <button
+        className={`todo-list-action ${confirmingDelete ? "confirming" : ""}`}
+        onClick={handleDelete}
+        disabled={!activeList || isDefault}
+        title={isDefault ? "The default list can't be deleted" : "Delete this list (its items move to the default list)"}
+      >
+        {confirmingDelete ? "[CONFIRM DEL]" : "[DEL LIST]"}
+      </button>
+    </div>
+  );
+};
@@ -1,138 +1,97 @@
 "use client";
 
-import { useState, useMemo, useRef, useEffect, useCallback } from "react";
-
-interface TodoItem {
-  id: string;
-  content: string;
-  completed: boolean;
-  created_at: string;
-  completed_at: string | null;
+import { useState, useMemo, useRef, useEffect } from "react";
+import { isPurchaseTodo, type TodoItem, type TodoPriority, type TodoUpdates } from "../hooks/useTodos";
+import type { ReminderStatus } from "../hooks/useReminders";
+import { TodoChecklist } from "./TodoChecklist";
+import { CalendarFeedButton } from "./CalendarFeedButton";
+import { describeRecurrence, nextDueDate, parseRecurrence, todayString } from "@/lib/recurrence";
+
+type SortField = "content" | "priority" | "due_date" | "created_at";
+type SortDirection = "asc" | "desc";
+type EditField = "content" | "due_date" | "due_time" | "notes" | "recurrence";
+
+interface TodoTableProps {
+  todos: TodoItem[];
+  isLoading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  onAddTodo: (content: string) => Promise<void>;
+  onUpdateTodo: (id: string, updates: TodoUpdates) => Promise<void>;
+  onDeleteTodo: (id: string) => Promise<void>;
+  onUndo: () => Promise<void>;
+  canUndo: boolean;
+  // Named lists an item can be moved to (empty on servers without lists)
+  lists?: string[];
+  reminderStatus?: ReminderStatus;
+  onToggleReminders?: () => void;
 }
 
-type UndoAction =
-  | { type: "create"; item: TodoItem }
-  | { type: "update"; item: TodoItem; previousState: TodoItem }
-  | { type: "delete"; item: TodoItem };
+const REMINDER_LABELS: Record<ReminderStatus, string> = {
+  unsupported: "",
+  denied: "BELL: BLOCKED",
+  off: "BELL: OFF",
+  on: "BELL: ON",
+};
 
-interface UndoEntry {
-  action: UndoAction;
-  timestamp: number;
-}
+const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  high: "HI",
+  normal: "--",
+  low: "lo",
+};
 
-export const TodoTable = () => {
-  const [todos, setTodos] = useState<TodoItem[]>([]);
+const PRIORITY_RANK: Record<TodoPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+};
+
+export const TodoTable = ({
+  todos,
+  isLoading,
+  error,
+  onRefresh,
+  onAddTodo,
+  onUpdateTodo,
+  onDeleteTodo,
+  onUndo,
+  canUndo,
+  lists = [],
+  reminderStatus = "unsupported",
+  onToggleReminders,
+}: TodoTableProps) => {
   const [filter, setFilter] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [newTodoInput, setNewTodoInput] = useState("");
   const [isAdding, setIsAdding] = useState(false);
-  const [lastAction, setLastAction] = useState<UndoEntry | null>(null);
   const [isUndoing, setIsUndoing] = useState(false);
+
+  // Sorting state - default: newest first (incomplete items always on top)
+  const [sortField, setSortField] = useState<SortField>("created_at");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+
+  // Editing state
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingField, setEditingField] = useState<EditField | null>(null);
   const [editValue, setEditValue] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const addInputRef = useRef<HTMLInputElement>(null);
-  const editInputRef = useRef<HTMLInputElement>(null);
-  const initialLoadDone = useRef(false);
+  const editInputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
 
   const showError = (message: string) => {
     setErrorMessage(message);
     setTimeout(() => setErrorMessage(null), 3000);
   };
 
-  // Fetch todos from API
-  const fetchTodos = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await fetch("/api/todos?include_completed=true");
-      if (!response.ok) {
-        throw new Error("Failed to fetch todos");
-      }
-      const data = await response.json();
-      const todoList = Array.isArray(data) ? data : (data.todos || []);
-      setTodos(todoList);
-    } catch (err) {
-      console.error("Failed to fetch todos:", err);
-      setError("Failed to load todos");
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  // Initial load
-  useEffect(() => {
-    if (!initialLoadDone.current) {
-      initialLoadDone.current = true;
-      fetchTodos();
-    }
-  }, [fetchTodos]);
-
-  // SSE listener for real-time updates
-  useEffect(() => {
-    const sseUrl = "/api/events";
-    const es = new EventSource(sseUrl);
-
-    es.addEventListener("todo_created", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        // Only add if not already present (avoids duplicates)
-        setTodos((prev) => {
-          if (prev.some((item) => item.id === data.id)) {
-            return prev;
-          }
-          return [...prev, data];
-        });
-      } catch {
-        // Ignore parse errors
-      }
-    });
-
-    es.addEventListener("todo_deleted", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setTodos((prev) => prev.filter((item) => item.id !== data.id));
-      } catch {
-        // Ignore parse errors
-      }
-    });
-
-    es.addEventListener("todo_updated", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setTodos((prev) =>
-          prev.map((item) => (item.id === data.id ? data : item))
-        );
-      } catch {
-        // Ignore parse errors
-      }
-    });
-
-    return () => {
-      es.close();
-    };
-  }, []);
-
-  // Clear undo after 30 seconds
-  useEffect(() => {
-    if (!lastAction) return;
-
-    const timeout = setTimeout(() => {
-      setLastAction(null);
-    }, 30000);
-
-    return () => clearTimeout(timeout);
-  }, [lastAction]);
-
   // Focus edit input when editing starts
   useEffect(() => {
-    if (editingId) {
-      editInputRef.current?.focus();
-      editInputRef.current?.select();
+    if (editingId && editInputRef.current) {
+      editInputRef.current.focus();
+      if (editingField === "content") {
+        editInputRef.current.select();
+      }
     }
-  }, [editingId]);
+  }, [editingId, editingField]);
 
   // Keyboard shortcut: + to focus add input
   useEffect(() => {
@@ -156,24 +115,7 @@ export const TodoTable = () => {
 
     setIsAdding(true);
     try {
-      const response = await fetch("/api/todos", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content: newTodoInput.trim() }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || "Failed to create todo");
-      }
-
-      const createdTodo = await response.json();
-      // Store for undo (we can delete the newly created item)
-      setLastAction({
-        action: { type: "create", item: createdTodo },
-        timestamp: Date.now(),
-      });
-      // SSE event will add it to state
+      await onAddTodo(newTodoInput.trim());
       setNewTodoInput("");
     } catch (err) {
       showError(err instanceof Error ? err.message : "Failed to add todo");
@@ -183,72 +125,27 @@ export const TodoTable = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    // Store for undo before deleting
-    const itemToDelete = todos.find((t) => t.id === id);
-
+  const handleUpdate = async (id: string, updates: TodoUpdates, failureMessage: string) => {
     try {
-      const response = await fetch(`/api/todos/${id}`, {
-        method: "DELETE",
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || "Failed to delete todo");
-      }
+      await onUpdateTodo(id, updates);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : failureMessage);
+    }
+  };
 
-      // Store for undo after successful API call
-      if (itemToDelete) {
-        setLastAction({
-          action: { type: "delete", item: itemToDelete },
-          timestamp: Date.now(),
-        });
-      }
-      // SSE event will remove it from state, but also remove locally for immediate feedback
-      setTodos((prev) => prev.filter((t) => t.id !== id));
+  const handleDelete = async (id: string) => {
+    try {
+      await onDeleteTodo(id);
     } catch (err) {
       showError(err instanceof Error ? err.message : "Failed to delete todo");
     }
   };
 
   const handleUndo = async () => {
-    if (!lastAction || isUndoing) return;
-
+    if (!canUndo || isUndoing) return;
     setIsUndoing(true);
     try {
-      const { action } = lastAction;
-
-      if (action.type === "delete") {
-        // Undo delete: recreate the item
-        const response = await fetch("/api/todos", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ content: action.item.content }),
-        });
-        if (!response.ok) throw new Error("Failed to restore todo");
-      } else if (action.type === "create") {
-        // Undo create: delete the item
-        const response = await fetch(`/api/todos/${action.item.id}`, {
-          method: "DELETE",
-        });
-        if (!response.ok) throw new Error("Failed to undo create");
-        // Remove locally for immediate feedback
-        setTodos((prev) => prev.filter((t) => t.id !== action.item.id));
-      } else if (action.type === "update") {
-        // Undo update: restore previous state
-        const response = await fetch(`/api/todos/${action.item.id}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            content: action.previousState.content,
-            completed: action.previousState.completed,
-          }),
-        });
-        if (!response.ok) throw new Error("Failed to undo edit");
-      }
-
-      // SSE events will update state
-      setLastAction(null);
+      await onUndo();
     } catch (err) {
       showError(err instanceof Error ? err.message : "Failed to undo");
     } finally {
@@ -256,115 +153,91 @@ export const TodoTable = () => {
     }
   };
 
-  const handleToggleComplete = async (id: string) => {
-    const todo = todos.find((t) => t.id === id);
-    if (!todo) return;
-
-    const previousState = { ...todo };
-    const newCompleted = !todo.completed;
-
-    // Optimistic update
-    setTodos((prev) =>
-      prev.map((t) => {
-        if (t.id !== id) return t;
-        return {
-          ...t,
-          completed: newCompleted,
-          completed_at: newCompleted ? new Date().toISOString() : null,
-        };
-      })
-    );
-
-    try {
-      const response = await fetch(`/api/todos/${id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ completed: newCompleted }),
-      });
-
-      if (!response.ok) {
-        // Revert on failure
-        setTodos((prev) =>
-          prev.map((t) => (t.id === id ? previousState : t))
-        );
-        throw new Error("Failed to update todo");
-      }
-
-      const updatedTodo = await response.json();
-      // Store for undo
-      setLastAction({
-        action: { type: "update", item: updatedTodo, previousState },
-        timestamp: Date.now(),
-      });
-    } catch (err) {
-      showError(err instanceof Error ? err.message : "Failed to toggle todo");
-    }
+  const handleCyclePriority = (todo: TodoItem) => {
+    // normal -> high -> low -> normal
+    const next: TodoPriority =
+      todo.priority === "normal" ? "high" : todo.priority === "high" ? "low" : "normal";
+    handleUpdate(todo.id, { priority: next }, "Failed to change priority");
   };
 
-  const handleStartEdit = (todo: TodoItem) => {
+  const startEditing = (todo: TodoItem, field: EditField) => {
     setEditingId(todo.id);
-    setEditValue(todo.content);
+    setEditingField(field);
+    if (field === "content") {
+      setEditValue(todo.content);
+    } else if (field === "due_date") {
+      setEditValue(todo.due_date || "");
+    } else if (field === "due_time") {
+      setEditValue(todo.due_time || "");
+    } else if (field === "recurrence") {
+      setEditValue(todo.recurrence ? describeRecurrence(todo.recurrence) : "");
+    } else {
+      setEditValue(todo.notes || "");
+    }
   };
 
-  const handleCancelEdit = () => {
+  const cancelEditing = () => {
     setEditingId(null);
+    setEditingField(null);
     setEditValue("");
   };
 
-  const handleSaveEdit = async () => {
-    if (!editingId || !editValue.trim()) {
-      handleCancelEdit();
-      return;
-    }
+  const saveEditing = async () => {
+    if (!editingId || !editingField) return;
 
     const todo = todos.find((t) => t.id === editingId);
-    if (!todo || todo.content === editValue.trim()) {
-      handleCancelEdit();
-      return;
-    }
-
-    const previousState = { ...todo };
-    const newContent = editValue.trim();
-
-    // Optimistic update
-    setTodos((prev) =>
-      prev.map((t) => (t.id === editingId ? { ...t, content: newContent } : t))
-    );
-    setEditingId(null);
-    setEditValue("");
-
-    try {
-      const response = await fetch(`/api/todos/${todo.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content: newContent }),
-      });
+    const field = editingField;
+    const trimmedValue = editValue.trim();
+    cancelEditing();
+    if (!todo) return;
 
-      if (!response.ok) {
-        // Revert on failure
-        setTodos((prev) =>
-          prev.map((t) => (t.id === todo.id ? previousState : t))
-        );
-        throw new Error("Failed to update todo");
+    if (field === "content") {
+      if (!trimmedValue || trimmedValue === todo.content) return;
+      await handleUpdate(todo.id, { content: trimmedValue }, "Failed to save edit");
+    } else if (field === "due_date") {
+      // An empty date input clears the due date
+      const dueDate = trimmedValue || null;
+      if (dueDate === todo.due_date) return;
+      // A new due date also resets any snoozed reminder
+      await handleUpdate(
+        todo.id,
+        { due_date: dueDate, snoozed_until: null },
+        "Failed to change due date"
+      );
+    } else if (field === "due_time") {
+      const dueTime = trimmedValue || null;
+      if (dueTime === todo.due_time) return;
+      // A time needs a date to remind on; default to today
+      const dueDate = dueTime && !todo.due_date ? today : todo.due_date;
+      await handleUpdate(
+        todo.id,
+        { due_time: dueTime, due_date: dueDate, snoozed_until: null },
+        "Failed to change reminder time"
+      );
+    } else if (field === "recurrence") {
+      // An empty rule stops the item repeating
+      const recurrence = trimmedValue ? parseRecurrence(trimmedValue) : null;
+      if (trimmedValue && !recurrence) {
+        showError(`Unknown repeat rule "${trimmedValue}"`);
+        return;
       }
-
-      const updatedTodo = await response.json();
-      // Store for undo
-      setLastAction({
-        action: { type: "update", item: updatedTodo, previousState },
-        timestamp: Date.now(),
-      });
-    } catch (err) {
-      showError(err instanceof Error ? err.message : "Failed to save edit");
+      if (JSON.stringify(recurrence) === JSON.stringify(todo.recurrence)) return;
+      await handleUpdate(todo.id, { recurrence }, "Failed to change repeat rule");
+    } else {
+      const notes = trimmedValue || null;
+      if (notes === todo.notes) return;
+      await handleUpdate(todo.id, { notes }, "Failed to save notes");
     }
   };
 
   const handleEditKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter") {
+    // Notes are multi-line: Enter adds a line, Ctrl/Cmd+Enter saves
+    if (e.key === "Enter" && (editingField !== "notes" || e.ctrlKey || e.metaKey)) {
       e.preventDefault();
-      handleSaveEdit();
+      saveEditing();
     } else if (e.key === "Escape") {
-      handleCancelEdit();
+      e.preventDefault();
+      cancelEditing();
     }
   };
 
@@ -375,6 +248,21 @@ export const TodoTable = () => {
     }
   };
 
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+    } else {
+      setSortField(field);
+      // Most useful first: highest priority, soonest due, newest added
+      setSortDirection(field === "priority" || field === "created_at" ? "desc" : "asc");
+    }
+  };
+
+  const getSortIndicator = (field: SortField) => {
+    if (sortField !== field) return "";
+    return sortDirection === "asc" ? " ^" : " v";
+  };
+
   const formatTimestamp = (timestamp: string) => {
     try {
       const date = new Date(timestamp);
@@ -386,23 +274,75 @@ export const TodoTable = () => {
     }
   };
 
-  // Filter and sort: incomplete first, then by date (newest first)
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+
+  // Due dates are plain YYYY-MM-DD, so format without going through UTC
+  const formatDueDate = (dueDate: string) => {
+    const [year, month, day] = dueDate.split("-").map(Number);
+    if (!year || !month || !day) return dueDate;
+    return formatTimestamp(new Date(year, month - 1, day).toISOString());
+  };
+
+  const today = todayString();
+
+  const getRecurrenceTitle = (todo: TodoItem) => {
+    if (!todo.recurrence) return "Click to repeat (e.g. daily, mon,thu, every 2 weeks, 3 days after done)";
+    const next = formatDueDate(nextDueDate(todo.recurrence, todo.due_date, today));
+    return `Repeats ${describeRecurrence(todo.recurrence)}, next due ${next} (click to change)`;
+  };
+
+  const getDueClass = (todo: TodoItem) => {
+    if (todo.completed || !todo.due_date) return "";
+    if (todo.due_date < today) return "todo-overdue";
+    if (todo.due_date === today) return "todo-due-today";
+    return "";
+  };
+
+  // Filter and sort: incomplete first, then by the selected column
   const filteredTodos = useMemo(() => {
     const lowerFilter = filter.toLowerCase();
 
     return todos
-      .filter((t) => t.content.toLowerCase().includes(lowerFilter))
+      .filter(
+        (t) =>
+          t.content.toLowerCase().includes(lowerFilter) ||
+          (t.notes || "").toLowerCase().includes(lowerFilter) ||
+          t.checklist.some((item) => item.content.toLowerCase().includes(lowerFilter))
+      )
       .sort((a, b) => {
         if (a.completed !== b.completed) {
           return a.completed ? 1 : -1;
         }
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+        // Items without a due date go last in either direction
+        if (sortField === "due_date" && a.due_date !== b.due_date) {
+          if (!a.due_date) return 1;
+          if (!b.due_date) return -1;
+        }
+
+        let comparison = 0;
+        switch (sortField) {
+          case "content":
+            comparison = a.content.localeCompare(b.content);
+            break;
+          case "priority":
+            comparison = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+            break;
+          case "due_date":
+            comparison = (a.due_date || "").localeCompare(b.due_date || "");
+            break;
+          case "created_at":
+            comparison = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+            break;
+        }
+        return sortDirection === "asc" ? comparison : -comparison;
       });
-  }, [todos, filter]);
+  }, [todos, filter, sortField, sortDirection]);
 
   const itemCount = todos.length;
   const completedCount = todos.filter((t) => t.completed).length;
-  const canUndo = lastAction !== null;
+  const overdueCount = todos.filter((t) => getDueClass(t) === "todo-overdue").length;
 
   return (
     <div className="todo-container">
@@ -412,6 +352,9 @@ export const TodoTable = () => {
           {itemCount === 0
             ? "No items"
             : `${itemCount - completedCount}/${itemCount} pending`}
+          {overdueCount > 0 && (
+            <span className="todo-overdue-count"> ({overdueCount} overdue)</span>
+          )}
         </span>
       </div>
 
@@ -430,19 +373,62 @@ export const TodoTable = () => {
           className="undo-button"
           onClick={handleUndo}
           disabled={!canUndo || isUndoing}
-          title={canUndo ? "Undo last delete" : "Nothing to undo"}
+          title={canUndo ? "Undo last change" : "Nothing to undo"}
         >
           {isUndoing ? "UNDOING..." : "UNDO"}
         </button>
-        <button className="refresh-button" onClick={fetchTodos} disabled={isLoading}>
+        {reminderStatus !== "unsupported" && onToggleReminders && (
+          <button
+            className={`undo-button reminder-button ${reminderStatus === "on" ? "on" : ""}`}
+            onClick={onToggleReminders}
+            disabled={reminderStatus === "denied"}
+            title={
+              reminderStatus === "denied"
+                ? "Notifications are blocked in the browser settings"
+                : "Notify on this device when a to-do's reminder time arrives"
+            }
+          >
+            {REMINDER_LABELS[reminderStatus]}
+          </button>
+        )}
+        <CalendarFeedButton />
+        <button className="refresh-button" onClick={onRefresh} disabled={isLoading}>
           {isLoading ? "LOADING..." : "REFRESH"}
         </button>
       </div>
 
+      {/* Column headers */}
       <div className="todo-header">
         <span className="todo-col-check"></span>
-        <span className="todo-col-content">ITEM</span>
-        <span className="todo-col-added">ADDED</span>
+        <span
+          className="todo-col-priority todo-sortable"
+          onClick={() => handleSort("priority")}
+          title="Sort by priority"
+        >
+          PRI{getSortIndicator("priority")}
+        </span>
+        <span
+          className="todo-col-content todo-sortable"
+          onClick={() => handleSort("content")}
+          title="Sort by item"
+        >
+          ITEM{getSortIndicator("content")}
+        </span>
+        <span
+          className="todo-col-due todo-sortable"
+          onClick={() => handleSort("due_date")}
+          title="Sort by due date"
+        >
+          DUE{getSortIndicator("due_date")}
+        </span>
+        <span className="todo-col-repeat">REPEAT</span>
+        <span
+          className="todo-col-added todo-sortable"
+          onClick={() => handleSort("created_at")}
+          title="Sort by date added"
+        >
+          ADDED{getSortIndicator("created_at")}
+        </span>
         <span className="todo-col-done">DONE</span>
         <span className="todo-col-actions"></span>
       </div>
@@ -462,56 +448,232 @@ export const TodoTable = () => {
           </div>
         )}
 
-        {filteredTodos.map((todo) => (
-          <div
-            key={todo.id}
-            className={`todo-row ${todo.completed ? "todo-completed" : ""}`}
-          >
-            <button
-              className="todo-checkbox"
-              onClick={() => handleToggleComplete(todo.id)}
-              title={todo.completed ? "Mark as pending" : "Mark as complete"}
-            >
-              [{todo.completed ? "x" : " "}]
-            </button>
-
-            {editingId === todo.id ? (
-              <input
-                ref={editInputRef}
-                type="text"
-                value={editValue}
-                onChange={(e) => setEditValue(e.target.value)}
-                onKeyDown={handleEditKeyDown}
-                onBlur={handleSaveEdit}
-                className="todo-edit-input"
-              />
-            ) : (
-              <span
-                className="todo-col-content"
-                onClick={() => handleStartEdit(todo)}
-                title="Click to edit"
-              >
-                {todo.content}
-              </span>
-            )}
-
-            <span className="todo-col-added">
-              {formatTimestamp(todo.created_at)}
-            </span>
+        {filteredTodos.map((todo) => {
+          const isEditing = (field: EditField) => editingId === todo.id && editingField === field;
+          const isExpanded = expandedId === todo.id || isEditing("notes");
+          const stepsDone = todo.checklist.filter((item) => item.completed).length;
 
-            <span className="todo-col-done">
-              {todo.completed_at ? formatTimestamp(todo.completed_at) : "-"}
-            </span>
-
-            <button
-              className="todo-delete-btn"
-              onClick={() => handleDelete(todo.id)}
-              title="Delete this to-do"
-            >
-              [DEL]
-            </button>
-          </div>
-        ))}
+          return (
+            <div key={todo.id} className="todo-item">
+              <div
+                className={`todo-row ${todo.completed ? "todo-completed" : ""} ${getDueClass(todo)}`}
+              >
+                <button
+                  className="todo-checkbox"
+                  onClick={() =>
+                    handleUpdate(todo.id, { completed: !todo.completed }, "Failed to toggle todo")
+                  }
+                  title={todo.completed ? "Mark as pending" : "Mark as complete"}
+                >
+                  [{todo.completed ? "x" : " "}]
+                </button>
+
+                <button
+                  className={`todo-col-priority todo-priority-${todo.priority}`}
+                  onClick={() => handleCyclePriority(todo)}
+                  title={`Priority: ${todo.priority} (click to change)`}
+                >
+                  {PRIORITY_LABELS[todo.priority]}
+                </button>
+
+                {isEditing("content") ? (
+                  <input
+                    ref={editInputRef}
+                    type="text"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    onBlur={saveEditing}
+                    className="todo-edit-input"
+                  />
+                ) : (
+                  <span
+                    className="todo-col-content"
+                    onClick={() => startEditing(todo, "content")}
+                    title="Click to edit"
+                  >
+                    {todo.content}
+                  </span>
+                )}
+
+                {todo.checklist.length > 0 && (
+                  <button
+                    className={`todo-checklist-progress ${stepsDone === todo.checklist.length ? "complete" : ""}`}
+                    onClick={() => setExpandedId(isExpanded ? null : todo.id)}
+                    title={isExpanded ? "Hide checklist" : "Show checklist"}
+                  >
+                    [{stepsDone}/{todo.checklist.length}]
+                  </button>
+                )}
+
+                {isEditing("due_date") ? (
+                  <input
+                    ref={editInputRef}
+                    type="date"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    onBlur={saveEditing}
+                    className="todo-edit-input todo-col-due"
+                  />
+                ) : (
+                  <span
+                    className="todo-col-due todo-editable"
+                    onClick={() => startEditing(todo, "due_date")}
+                    title={todo.due_date ? `Due ${todo.due_date} (click to change)` : "Click to set a due date"}
+                  >
+                    {todo.due_date ? formatDueDate(todo.due_date) : "-"}
+                    {todo.due_date && todo.due_time && (
+                      <span className="todo-due-time"> {todo.due_time}</span>
+                    )}
+                  </span>
+                )}
+
+                {isEditing("recurrence") ? (
+                  <input
+                    ref={editInputRef}
+                    type="text"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    onBlur={saveEditing}
+                    placeholder="e.g. every 2 weeks"
+                    className="todo-edit-input todo-col-repeat"
+                  />
+                ) : (
+                  <span
+                    className={`todo-col-repeat todo-editable ${todo.recurrence ? "has-repeat" : ""}`}
+                    onClick={() => startEditing(todo, "recurrence")}
+                    title={getRecurrenceTitle(todo)}
+                  >
+                    {todo.recurrence ? describeRecurrence(todo.recurrence) : "-"}
+                    {todo.recurrence && !todo.completed && (
+                      <span className="todo-repeat-next">
+                        {" "}then {formatDueDate(nextDueDate(todo.recurrence, todo.due_date, today))}
+                      </span>
+                    )}
+                  </span>
+                )}
+
+                <span className="todo-col-added">
+                  {formatTimestamp(todo.created_at)}
+                </span>
+
+                <span className="todo-col-done">
+                  {todo.completed_at ? formatTimestamp(todo.completed_at) : "-"}
+                </span>
+
+                <span className="todo-col-actions">
+                  <button
+                    className={`todo-notes-btn ${todo.notes ? "has-notes" : ""}`}
+                    onClick={() => setExpandedId(isExpanded ? null : todo.id)}
+                    title={todo.notes ? "Show notes and checklist" : "Add notes or a checklist"}
+                  >
+                    {todo.notes ? "[N]" : "[+]"}
+                  </button>
+                  <button
+                    className="todo-delete-btn"
+                    onClick={() => handleDelete(todo.id)}
+                    title="Delete this to-do"
+                  >
+                    [DEL]
+                  </button>
+                </span>
+              </div>
+
+              {isExpanded && (
+                <div className="todo-notes">
+                  {isEditing("notes") ? (
+                    <textarea
+                      ref={editInputRef}
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      onKeyDown={handleEditKeyDown}
+                      onBlur={saveEditing}
+                      placeholder="Notes (Ctrl+Enter to save, Esc to cancel)"
+                      className="todo-notes-input"
+                      rows={3}
+                    />
+                  ) : (
+                    <span
+                      className="todo-notes-text"
+                      onClick={() => startEditing(todo, "notes")}
+                      title="Click to edit notes"
+                    >
+                      {todo.notes || "No notes yet - click to add"}
+                    </span>
+                  )}
+                  <div className="todo-detail-row">
+                    <span className="filter-prompt">REMIND AT:</span>
+                    {isEditing("due_time") ? (
+                      <input
+                        ref={editInputRef}
+                        type="time"
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onKeyDown={handleEditKeyDown}
+                        onBlur={saveEditing}
+                        className="todo-edit-input todo-time-input"
+                      />
+                    ) : (
+                      <span
+                        className="todo-editable"
+                        onClick={() => startEditing(todo, "due_time")}
+                        title="Click to set a reminder time on the due date"
+                      >
+                        {todo.due_time || "no reminder"}
+                        {todo.snoozed_until && ` (snoozed until ${formatTime(todo.snoozed_until)})`}
+                      </span>
+                    )}
+                  </div>
+                  {todo.list && lists.length > 1 && (
+                    <div className="todo-detail-row">
+                      <span className="filter-prompt">LIST:</span>
+                      <select
+                        value={todo.list}
+                        onChange={(e) =>
+                          handleUpdate(todo.id, { list: e.target.value }, "Failed to move todo")
+                        }
+                        className="todo-list-select"
+                      >
+                        {lists.map((name) => (
+                          <option key={name} value={name}>
+                            {name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div className="todo-detail-row">
+                    <span className="filter-prompt">SHOPPING:</span>
+                    <select
+                      value={todo.purchase === null ? "auto" : todo.purchase ? "yes" : "no"}
+                      onChange={(e) =>
+                        handleUpdate(
+                          todo.id,
+                          { purchase: e.target.value === "auto" ? null : e.target.value === "yes" },
+                          "Failed to update todo"
+                        )
+                      }
+                      className="todo-list-select"
+                      title="Whether this to-do shows up on the shopping list"
+                    >
+                      <option value="auto">auto ({isPurchaseTodo({ ...todo, purchase: null }) ? "yes" : "no"})</option>
+                      <option value="yes">yes</option>
+                      <option value="no">no</option>
+                    </select>
+                  </div>
+                  <TodoChecklist
+                    items={todo.checklist}
+                    onChange={(checklist) =>
+                      handleUpdate(todo.id, { checklist }, "Failed to update checklist")
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
 
       <div className="todo-add-row">
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { TRANSPORT_LABELS, type TransportType } from "../../config";
+
+interface TransportSelectorProps {
+  transports: TransportType[];
+  currentTransport: TransportType;
+  onSelectTransport: (transport: TransportType) => void;
+  disabled?: boolean;
+}
+
+export const TransportSelector = ({
+  transports,
+  currentTransport,
+  onSelectTransport,
+  disabled = false,
+}: TransportSelectorProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const displayText = TRANSPORT_LABELS[currentTransport];
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close dropdown on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && isOpen) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleSelect = (transport: TransportType) => {
+    if (transport !== currentTransport) {
+      onSelectTransport(transport);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="ascii-dropdown" ref={dropdownRef}>
+      <button
+        className="ascii-dropdown-trigger"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || transports.length < 2}
+        title={disabled ? "Disconnect to change transport" : "Voice transport"}
+      >
+        [ {displayText} <span className="dropdown-arrow">{isOpen ? "" : ""}</span> ]
+      </button>
+
+      {isOpen && transports.length > 0 && (
+        <div className="ascii-dropdown-menu">
+          {transports.map((transport) => (
+            <button
+              key={transport}
+              className={`ascii-dropdown-item ${
+                transport === currentTransport ? "selected" : ""
+              }`}
+              onClick={() => handleSelect(transport)}
+            >
+              {TRANSPORT_LABELS[transport]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+"use client";
+
+import type { AuthUser } from "../hooks/useAuth";
+
+interface UserDisplayProps {
+  user: AuthUser;
+  onLogout: () => void;
+}
+
+export const UserDisplay = ({ user, onLogout }: UserDisplayProps) => {
+  return (
+    <div className="user-display">
+      <span className="user-name" title={`Logged in as ${user.username}`}>
+        {user.displayName}
+      </span>
+      <span
+        className="user-logout"
+        onClick={onLogout}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => e.key === "Enter" && onLogout()}
+      >
+        [LOGOUT]
+      </span>
+    </div>
+  );
+};
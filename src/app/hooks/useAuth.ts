@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export interface AuthUser {
+  username: string;
+  displayName: string;
+}
+
+interface SessionResponse {
+  user: AuthUser | null;
+  setupRequired: boolean;
+}
+
+interface UseAuthReturn {
+  user: AuthUser | null;
+  setupRequired: boolean;
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  setup: (username: string, displayName: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+export const useAuth = (): UseAuthReturn => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Fetch the current session from the cookie
+  const checkSession = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/session");
+      if (!response.ok) return;
+      const data: SessionResponse = await response.json();
+      setUser(data.user);
+      setSetupRequired(data.setupRequired);
+    } catch {
+      console.warn("Failed to check session");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial check
+  useEffect(() => {
+    checkSession();
+  }, [checkSession]);
+
+  // Re-check when the app comes back to the foreground so an expired
+  // session shows the lock screen instead of failing requests
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        checkSession();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [checkSession]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const response = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Login failed");
+    }
+
+    setUser(data.user);
+  }, []);
+
+  const setup = useCallback(async (username: string, displayName: string, password: string) => {
+    const response = await fetch("/api/auth/setup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, displayName, password }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Setup failed");
+    }
+
+    setUser(data.user);
+    setSetupRequired(false);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (error) {
+      console.error("Error logging out:", error);
+    }
+    setUser(null);
+  }, []);
+
+  return {
+    user,
+    setupRequired,
+    isLoading,
+    login,
+    setup,
+    logout,
+  };
+};
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { Stock } from "./useStock";
+
+const STORAGE_KEY = "voice-ai-barcodes";
+
+// What a scanned code stands for. The name is kept so the link survives the
+// entry being deleted and added again (e.g. by voice) under a new id.
+export interface BarcodeLink {
+  stock_id: string | null;
+  item: string;
+}
+
+type BarcodeTable = Record<string, BarcodeLink>;
+
+interface UseBarcodeLinksReturn {
+  links: BarcodeTable;
+  findStock: (code: string, stock: Stock[]) => Stock | null;
+  link: (code: string, target: Stock | string) => void;
+  unlink: (code: string) => void;
+}
+
+/**
+ * UPC-A is EAN-13 with a leading zero; scanners report either, so codes are
+ * stored as 13 digits. Returns null for anything that isn't an EAN/UPC code.
+ */
+export const normalizeBarcode = (text: string): string | null => {
+  const digits = text.replace(/\D/g, "");
+  if (digits.length === 12) return `0${digits}`;
+  return digits.length === 8 || digits.length === 13 ? digits : null;
+};
+
+const loadTable = (): BarcodeTable => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveTable = (table: BarcodeTable) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+/**
+ * Barcode -> inventory item table, kept on this device only.
+ */
+export const useBarcodeLinks = (): UseBarcodeLinksReturn => {
+  const [links, setLinks] = useState<BarcodeTable>({});
+
+  // localStorage is browser-only
+  useEffect(() => {
+    setLinks(loadTable());
+  }, []);
+
+  const updateLinks = useCallback((update: (prev: BarcodeTable) => BarcodeTable) => {
+    setLinks((prev) => {
+      const next = update(prev);
+      saveTable(next);
+      return next;
+    });
+  }, []);
+
+  // The linked entry, or one with the linked name if that entry is gone
+  const findStock = useCallback(
+    (code: string, stock: Stock[]) => {
+      const entry = links[code];
+      if (!entry) return null;
+      const name = entry.item.trim().toLowerCase();
+      return (
+        stock.find((s) => s.id === entry.stock_id) ??
+        stock.find((s) => s.item.trim().toLowerCase() === name) ??
+        null
+      );
+    },
+    [links]
+  );
+
+  // Link to an existing entry, or to an item name for an entry still being created
+  const link = useCallback(
+    (code: string, target: Stock | string) => {
+      const entry =
+        typeof target === "string" ? { stock_id: null, item: target } : { stock_id: target.id, item: target.item };
+      updateLinks((prev) => ({ ...prev, [code]: entry }));
+    },
+    [updateLinks]
+  );
+
+  const unlink = useCallback(
+    (code: string) => {
+      updateLinks((prev) => {
+        const next = { ...prev };
+        delete next[code];
+        return next;
+      });
+    },
+    [updateLinks]
+  );
+
+  return { links, findStock, link, unlink };
+};
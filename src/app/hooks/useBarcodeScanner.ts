@@ -0,0 +1,199 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { normalizeBarcode } from "./useBarcodeLinks";
+
+// The Shape Detection API isn't in TypeScript's DOM types yet
+interface NativeBarcodeDetector {
+  detect(source: ImageBitmapSource): Promise<{ rawValue: string }[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+type Decoder = (source: HTMLVideoElement | Blob) => Promise<string[]>;
+
+// EAN/UPC only, in each decoder's naming
+const NATIVE_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"];
+const WASM_FORMATS = ["EAN13", "EAN8", "UPCA", "UPCE"] as const;
+
+// How often a camera frame is checked for a barcode
+const SCAN_INTERVAL_MS = 250;
+
+// Served by the app itself (copied into public/ by `npm run copy-wasm`), so
+// scanning doesn't depend on a CDN the device may not be able to reach
+const WASM_PATH = "/zxing_reader.wasm";
+
+interface UseBarcodeScannerReturn {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  isCameraOn: boolean;
+  isDecoding: boolean;
+  error: string | null;
+  startCamera: () => Promise<void>;
+  stopCamera: () => void;
+  scanImage: (image: Blob) => Promise<void>;
+}
+
+// Current video frame as pixels, for the WASM decoder
+function frameOf(video: HTMLVideoElement, canvas: HTMLCanvasElement): ImageData {
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(video, 0, 0);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+let decoderPromise: Promise<Decoder> | null = null;
+
+/**
+ * The browser's BarcodeDetector when it reads EAN/UPC, otherwise ZXing
+ * compiled to WASM. The WASM is only fetched from this app the first time a
+ * browser without a usable BarcodeDetector (e.g. iOS Safari) scans.
+ */
+const getDecoder = (): Promise<Decoder> => {
+  decoderPromise ??= (async (): Promise<Decoder> => {
+    const Native = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+    if (Native) {
+      const supported = await Native.getSupportedFormats().catch(() => [] as string[]);
+      const formats = NATIVE_FORMATS.filter((format) => supported.includes(format));
+      if (formats.length > 0) {
+        const detector = new Native({ formats });
+        return async (source) => (await detector.detect(source)).map((barcode) => barcode.rawValue);
+      }
+    }
+
+    const { prepareZXingModule, readBarcodes } = await import("zxing-wasm/reader");
+    // Loaded up front so a failed download surfaces here and is retried
+    await prepareZXingModule({
+      overrides: {
+        locateFile: (path: string, prefix: string) => (path.endsWith(".wasm") ? WASM_PATH : prefix + path),
+      },
+      fireImmediately: true,
+    });
+    const canvas = document.createElement("canvas");
+    return async (source) => {
+      const input = source instanceof Blob ? source : frameOf(source, canvas);
+      const results = await readBarcodes(input, {
+        formats: [...WASM_FORMATS],
+        tryHarder: true,
+        maxNumberOfSymbols: 1,
+      });
+      return results.filter((result) => result.isValid).map((result) => result.text);
+    };
+  })().catch((err) => {
+    // Let the next scan try again (e.g. the WASM download failed)
+    decoderPromise = null;
+    throw err;
+  });
+  return decoderPromise;
+};
+
+const firstBarcode = (texts: string[]) => texts.map(normalizeBarcode).find((code) => code !== null) ?? null;
+
+/**
+ * Reads EAN/UPC codes from the camera or from a still image. The camera stops
+ * at the first code found, so the caller can act on it before scanning again.
+ */
+export const useBarcodeScanner = (onDetected: (code: string) => void): UseBarcodeScannerReturn => {
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Latest callback, without restarting the camera when it changes
+  const onDetectedRef = useRef(onDetected);
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  const stopCamera = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsCameraOn(false);
+  }, []);
+
+  const startCamera = useCallback(async () => {
+    if (streamRef.current) return;
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("No camera available - use a photo instead");
+      return;
+    }
+
+    try {
+      const [decode, stream] = await Promise.all([
+        getDecoder(),
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } }),
+      ]);
+      streamRef.current = stream;
+      const video = videoRef.current;
+      if (!video) {
+        stopCamera();
+        return;
+      }
+      video.srcObject = stream;
+      await video.play();
+      setIsCameraOn(true);
+
+      let busy = false;
+      intervalRef.current = setInterval(async () => {
+        if (busy || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+        busy = true;
+        try {
+          const code = firstBarcode(await decode(video));
+          if (code && streamRef.current) {
+            stopCamera();
+            onDetectedRef.current(code);
+          }
+        } catch (err) {
+          console.error("Barcode scan failed:", err);
+        } finally {
+          busy = false;
+        }
+      }, SCAN_INTERVAL_MS);
+    } catch (err) {
+      console.error("Failed to start barcode camera:", err);
+      stopCamera();
+      setError(
+        err instanceof DOMException && err.name === "NotAllowedError"
+          ? "Camera permission denied - use a photo instead"
+          : "Failed to start the camera"
+      );
+    }
+  }, [stopCamera]);
+
+  const scanImage = useCallback(async (image: Blob) => {
+    setIsDecoding(true);
+    setError(null);
+    try {
+      const decode = await getDecoder();
+      const code = firstBarcode(await decode(image));
+      if (code) {
+        onDetectedRef.current(code);
+      } else {
+        setError("No EAN/UPC barcode found in the image");
+      }
+    } catch (err) {
+      console.error("Failed to read barcode from image:", err);
+      setError("Failed to read the image");
+    } finally {
+      setIsDecoding(false);
+    }
+  }, []);
+
+  // Release the camera when the scanner closes
+  useEffect(() => stopCamera, [stopCamera]);
+
+  return { videoRef, isCameraOn, isDecoding, error, startCamera, stopCamera, scanImage };
+};
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { useSSEEvent } from "./useSSE";
 
 const STORAGE_KEY = "voice-ai-selected-client";
 
@@ -264,46 +265,28 @@ export const useClientProfile = (): UseClientProfileReturn => {
     };
   }, [fetchClients, fetchGatingModes, selectClient]);
 
-  // Set up SSE listener for gating events
-  useEffect(() => {
-    const es = new EventSource("/api/events");
-
-    es.addEventListener("client_selected", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setSelectedClientId(data.client_id);
-        setCurrentGatingMode(data.gating);
-        setIsListening(false);
-      } catch {
-        // Ignore parse errors
-      }
-    });
-
-    es.addEventListener("gating_mode_changed", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setCurrentGatingMode(data.mode);
-        // Reset listening state when mode changes
-        if (data.mode !== "toggle") {
-          setIsListening(false);
-        }
-      } catch {
-        // Ignore parse errors
-      }
-    });
-
-    es.addEventListener("assistant_listening_started", () => {
-      setIsListening(true);
-    });
-
-    es.addEventListener("assistant_listening_stopped", () => {
+  // SSE listeners for gating events
+  useSSEEvent("client_selected", (data) => {
+    setSelectedClientId(data.client_id);
+    setCurrentGatingMode(data.gating);
+    setIsListening(false);
+  });
+
+  useSSEEvent("gating_mode_changed", (data) => {
+    setCurrentGatingMode(data.mode);
+    // Reset listening state when mode changes
+    if (data.mode !== "toggle") {
       setIsListening(false);
-    });
+    }
+  });
 
-    return () => {
-      es.close();
-    };
-  }, []);
+  useSSEEvent("assistant_listening_started", () => {
+    setIsListening(true);
+  });
+
+  useSSEEvent("assistant_listening_stopped", () => {
+    setIsListening(false);
+  });
 
   return {
     // Clients
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { useSSEEvent } from "./useSSE";
 
 export interface FreezerItem {
   code: string;
@@ -61,50 +62,31 @@ export const useFreezer = (): UseFreezerReturn => {
     }
   }, [fetchItems]);
 
-  // SSE listener for real-time updates
-  useEffect(() => {
-    const sseUrl = "/api/events";
-    const es = new EventSource(sseUrl);
-
-    es.addEventListener("freezer_item_created", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        // Only add if not already present (avoids duplicates)
-        setItems((prev) => {
-          if (prev.some((item) => item.code === data.code)) {
-            return prev;
-          }
-          return [...prev, data];
-        });
-      } catch {
-        // Ignore parse errors
+  // Missed events couldn't be replayed after a reconnect - reload everything
+  useSSEEvent("resync", () => {
+    fetchItems();
+  });
+
+  // SSE listeners for real-time updates
+  useSSEEvent("freezer_item_created", (data) => {
+    // Only add if not already present (avoids duplicates)
+    setItems((prev) => {
+      if (prev.some((item) => item.code === data.code)) {
+        return prev;
       }
+      return [...prev, data];
     });
+  });
 
-    es.addEventListener("freezer_item_updated", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setItems((prev) =>
-          prev.map((item) => (item.code === data.code ? { ...item, ...data } : item))
-        );
-      } catch {
-        // Ignore parse errors
-      }
-    });
-
-    es.addEventListener("freezer_item_deleted", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setItems((prev) => prev.filter((item) => item.code !== data.code));
-      } catch {
-        // Ignore parse errors
-      }
-    });
+  useSSEEvent("freezer_item_updated", (data) => {
+    setItems((prev) =>
+      prev.map((item) => (item.code === data.code ? { ...item, ...data } : item))
+    );
+  });
 
-    return () => {
-      es.close();
-    };
-  }, []);
+  useSSEEvent("freezer_item_deleted", (data) => {
+    setItems((prev) => prev.filter((item) => item.code !== data.code));
+  });
 
   // Clear undo after 30 seconds
   useEffect(() => {
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+const POLL_INTERVAL_MS = 30000;
+
+export type DependencyName = "bot" | "chat";
+
+export interface DependencyHealth {
+  status: "up" | "down";
+  latency_ms: number | null;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: "ok" | "degraded" | "down";
+  checked_at: string;
+  dependencies: Record<DependencyName, DependencyHealth>;
+}
+
+interface UseHealthReturn {
+  health: HealthReport | null;
+  isChecking: boolean;
+  refresh: () => Promise<HealthReport | null>;
+}
+
+export const useHealth = (): UseHealthReturn => {
+  const [health, setHealth] = useState<HealthReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // /api/health answers 503 with a full report when something is down
+  const fetchHealth = useCallback(async (): Promise<HealthReport | null> => {
+    setIsChecking(true);
+    try {
+      const response = await fetch("/api/health");
+      const data = await response.json();
+      if (!data.dependencies) return null;
+      setHealth(data);
+      return data;
+    } catch {
+      console.warn("Failed to check backend health");
+      return null;
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  // Poll while the page is visible
+  useEffect(() => {
+    fetchHealth();
+
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") {
+        fetchHealth();
+      }
+    }, POLL_INTERVAL_MS);
+
+    // Re-check as soon as the page comes back, rather than waiting for the next tick
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        fetchHealth();
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [fetchHealth]);
+
+  return {
+    health,
+    isChecking,
+    refresh: fetchHealth,
+  };
+};
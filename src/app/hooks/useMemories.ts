@@ -1,6 +1,15 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { useSSEEvent } from "./useSSE";
+
+// One entry in a memory's location timeline (oldest first), recorded by
+// this app's server from memory events (see src/lib/locationHistory.ts)
+export interface LocationChange {
+  location: string;
+  changed_at: string; // ISO string
+  changed_by: string | null; // "voice", the user who made the change, or null from before history was kept
+}
 
 export interface Memory {
   id: string;
@@ -19,12 +28,16 @@ interface UseMemoriesReturn {
   createMemory: (item: string, location: string) => Promise<void>;
   updateMemory: (id: string, updates: { item?: string; location?: string }) => Promise<void>;
   deleteMemory: (id: string) => Promise<void>;
+  // Timelines fetched so far, by memory id
+  locationHistory: Record<string, LocationChange[]>;
+  loadLocationHistory: (id: string) => Promise<void>;
 }
 
 export const useMemories = (): UseMemoriesReturn => {
   const [memories, setMemories] = useState<Memory[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [locationHistory, setLocationHistory] = useState<Record<string, LocationChange[]>>({});
   const initialLoadDone = useRef(false);
 
   // Fetch all memories from API
@@ -57,50 +70,61 @@ export const useMemories = (): UseMemoriesReturn => {
     }
   }, [fetchMemories]);
 
-  // SSE listener for real-time updates from other clients
-  useEffect(() => {
-    // Use proxied SSE endpoint to work in remote/Tailscale environments
-    const sseUrl = "/api/events";
-    const es = new EventSource(sseUrl);
-
-    es.addEventListener("memory_created", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        // Only add if not already present (avoids duplicates from local creates)
-        setMemories((prev) => {
-          if (prev.some((m) => m.id === data.id)) {
-            return prev;
-          }
-          return [...prev, data];
-        });
-      } catch {
-        // Ignore parse errors
+  // Missed events couldn't be replayed after a reconnect - reload everything
+  useSSEEvent("resync", () => {
+    fetchMemories();
+  });
+
+  // SSE listeners for real-time updates from other clients
+  useSSEEvent("memory_created", (data) => {
+    // Only add if not already present (avoids duplicates from local creates)
+    setMemories((prev) => {
+      if (prev.some((m) => m.id === data.id)) {
+        return prev;
       }
+      return [...prev, data];
     });
+  });
 
-    es.addEventListener("memory_updated", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setMemories((prev) =>
-          prev.map((m) => (m.id === data.id ? { ...m, ...data } : m))
-        );
-      } catch {
-        // Ignore parse errors
-      }
-    });
+  useSSEEvent("memory_updated", (data) => {
+    setMemories((prev) =>
+      prev.map((m) => (m.id === data.id ? { ...m, ...data } : m))
+    );
+  });
 
-    es.addEventListener("memory_deleted", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setMemories((prev) => prev.filter((m) => m.id !== data.id));
-      } catch {
-        // Ignore parse errors
+  useSSEEvent("memory_deleted", (data) => {
+    setMemories((prev) => prev.filter((m) => m.id !== data.id));
+  });
+
+  const loadLocationHistory = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/memories/history?id=${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch location history");
       }
-    });
+      const data = await response.json();
+      setLocationHistory((prev) => ({ ...prev, [id]: data.history || [] }));
+    } catch (err) {
+      console.error("Failed to fetch location history:", err);
+    }
+  }, []);
 
-    return () => {
-      es.close();
-    };
+  // Tell the history this user made a location change; the change itself already succeeded
+  const claimLocationChange = useCallback(async (id: string, location: string) => {
+    try {
+      const response = await fetch("/api/memories/history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, location }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to record location change");
+      }
+      const data = await response.json();
+      setLocationHistory((prev) => ({ ...prev, [id]: data.history || [] }));
+    } catch (err) {
+      console.error("Failed to record location change:", err);
+    }
   }, []);
 
   // Create a new memory (SSE will add it to state)
@@ -117,12 +141,15 @@ export const useMemories = (): UseMemoriesReturn => {
       }
 
       // Don't add locally - SSE memory_created event will add it
-      await response.json();
+      const created = await response.json();
+      if (created?.id != null) {
+        await claimLocationChange(String(created.id), created.location ?? location);
+      }
     } catch (err) {
       console.error("Failed to create memory:", err);
       throw err;
     }
-  }, []);
+  }, [claimLocationChange]);
 
   // Update a memory
   const updateMemory = useCallback(
@@ -139,6 +166,9 @@ export const useMemories = (): UseMemoriesReturn => {
         }
 
         const updatedMemory = await response.json();
+        if (updates.location) {
+          await claimLocationChange(id, updatedMemory.location ?? updates.location);
+        }
         setMemories((prev) =>
           prev.map((m) => (m.id === id ? { ...m, ...updatedMemory } : m))
         );
@@ -147,7 +177,7 @@ export const useMemories = (): UseMemoriesReturn => {
         throw err;
       }
     },
-    []
+    [claimLocationChange]
   );
 
   // Delete a memory
@@ -176,5 +206,7 @@ export const useMemories = (): UseMemoriesReturn => {
     createMemory,
     updateMemory,
     deleteMemory,
+    locationHistory,
+    loadLocationHistory,
   };
 };
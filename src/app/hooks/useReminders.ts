@@ -0,0 +1,175 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSSEEvent } from "./useSSE";
+import { normalizeTodo, type TodoItem } from "./useTodos";
+
+const ENABLED_KEY = "voice-ai-reminders";
+const FIRED_KEY = "voice-ai-fired-reminders";
+const CHECK_INTERVAL_MS = 30000;
+// Reminders missed while no page was open still fire if they're this recent
+const MISSED_WINDOW_MS = 12 * 60 * 60 * 1000;
+const MAX_FIRED = 200;
+
+// Notification actions aren't in every TypeScript DOM lib yet
+type ReminderOptions = NotificationOptions & {
+  actions: { action: string; title: string }[];
+};
+
+export type ReminderStatus = "unsupported" | "denied" | "off" | "on";
+
+interface UseRemindersReturn {
+  status: ReminderStatus;
+  toggle: () => Promise<void>;
+}
+
+// When a todo's reminder is due, or null if it has none
+export const reminderTime = (todo: TodoItem): Date | null => {
+  if (todo.completed || !todo.due_date || !todo.due_time) return null;
+  if (todo.snoozed_until) return new Date(todo.snoozed_until);
+  // No "Z": parsed as local time
+  return new Date(`${todo.due_date}T${todo.due_time}`);
+};
+
+const isSupported = () =>
+  typeof window !== "undefined" && "Notification" in window && "serviceWorker" in navigator;
+
+const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+// Keys of reminders already shown on this device, so reloads don't repeat them
+const loadFired = (): string[] => {
+  try {
+    const parsed = JSON.parse(readStorage(FIRED_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const registerWorker = () => navigator.serviceWorker.register("/sw.js");
+
+/**
+ * Shows a notification with Snooze / Done actions when a pending todo's due
+ * date and time (or snooze) arrive. Works across every list, while this page
+ * is open; the schedule comes from the server so it survives reloads.
+ */
+export const useReminders = (): UseRemindersReturn => {
+  const [status, setStatus] = useState<ReminderStatus>("off");
+  const [todos, setTodos] = useState<TodoItem[]>([]);
+
+  // Work out the starting status once mounted (storage and permission are browser-only)
+  useEffect(() => {
+    if (!isSupported()) {
+      setStatus("unsupported");
+    } else if (Notification.permission === "denied") {
+      setStatus("denied");
+    } else if (Notification.permission === "granted" && readStorage(ENABLED_KEY) === "on") {
+      setStatus("on");
+      registerWorker().catch((err) => console.warn("Reminder service worker failed:", err));
+    }
+  }, []);
+
+  // Pending todos from every list
+  const fetchTodos = useCallback(async () => {
+    try {
+      const response = await fetch("/api/todos?include_completed=false");
+      if (!response.ok) return;
+      const data = await response.json();
+      const todoList = Array.isArray(data) ? data : (data.todos || []);
+      setTodos(todoList.map(normalizeTodo));
+    } catch {
+      console.warn("Failed to fetch todos for reminders");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "on") fetchTodos();
+  }, [status, fetchTodos]);
+
+  const refetchIfOn = () => {
+    if (status === "on") fetchTodos();
+  };
+  useSSEEvent("todo_created", refetchIfOn);
+  useSSEEvent("todo_updated", refetchIfOn);
+  useSSEEvent("todo_deleted", refetchIfOn);
+  useSSEEvent("resync", refetchIfOn);
+
+  const checkReminders = useCallback(async () => {
+    const now = Date.now();
+    const fired = loadFired();
+    const due = todos.filter((todo) => {
+      const at = reminderTime(todo);
+      if (!at || isNaN(at.getTime())) return false;
+      const key = `${todo.id}@${at.toISOString()}`;
+      return at.getTime() <= now && now - at.getTime() < MISSED_WINDOW_MS && !fired.includes(key);
+    });
+    if (due.length === 0) return;
+
+    const registration = await navigator.serviceWorker.ready;
+    for (const todo of due) {
+      const at = reminderTime(todo) as Date;
+      const key = `${todo.id}@${at.toISOString()}`;
+      fired.push(key);
+      const options: ReminderOptions = {
+        body: `Due ${todo.due_time}${todo.list ? ` - ${todo.list}` : ""}`,
+        tag: key,
+        icon: "/icon-192.svg",
+        data: { todoId: todo.id },
+        requireInteraction: true,
+        // Handled in public/sw.js
+        actions: [
+          { action: "snooze", title: "Snooze 10 min" },
+          { action: "complete", title: "Done" },
+        ],
+      };
+      await registration.showNotification(todo.content, options);
+    }
+    writeStorage(FIRED_KEY, JSON.stringify(fired.slice(-MAX_FIRED)));
+  }, [todos]);
+
+  useEffect(() => {
+    if (status !== "on") return;
+    checkReminders();
+    const interval = setInterval(checkReminders, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [status, checkReminders]);
+
+  const toggle = useCallback(async () => {
+    if (status === "unsupported") return;
+    if (status === "on") {
+      writeStorage(ENABLED_KEY, "off");
+      setStatus("off");
+      return;
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") {
+      setStatus(permission === "denied" ? "denied" : "off");
+      return;
+    }
+    try {
+      await registerWorker();
+    } catch (err) {
+      console.warn("Reminder service worker failed:", err);
+      return;
+    }
+    writeStorage(ENABLED_KEY, "on");
+    setStatus("on");
+  }, [status]);
+
+  return { status, toggle };
+};
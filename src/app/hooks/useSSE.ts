@@ -0,0 +1,92 @@
+"use client";
+
+import { useContext, useEffect, useRef } from "react";
+import { SSEContext } from "../components/SSEProvider";
+import type { SSEConnectionStatus } from "../components/SSEProvider";
+import type { Memory } from "./useMemories";
+import type { Stock } from "./useStock";
+import type { FreezerItem } from "./useFreezer";
+import type { GatingMode } from "./useClientProfile";
+import type { TodoItem } from "./useTodos";
+import type { TodoListsResponse } from "./useTodoLists";
+
+// Payloads of every event the chat server sends on /events
+export interface SSEEventMap {
+  connected: Record<string, unknown>;
+  turn_counter_updated: { turn_count?: number; count?: number };
+  client_selected: { client_id: string; gating: GatingMode };
+  gating_mode_changed: { mode: GatingMode };
+  assistant_listening_started: Record<string, unknown>;
+  assistant_listening_stopped: Record<string, unknown>;
+  memory_created: Memory;
+  memory_updated: Partial<Memory> & { id: string };
+  memory_deleted: { id: string };
+  stock_created: Stock;
+  stock_updated: Partial<Stock> & { id: string };
+  stock_deleted: { id: string };
+  freezer_item_created: FreezerItem;
+  freezer_item_updated: Partial<FreezerItem> & { code: string };
+  freezer_item_deleted: { code: string };
+  todo_created: TodoItem;
+  todo_updated: TodoItem;
+  todo_deleted: { id: string };
+  todo_lists_changed: TodoListsResponse;
+  // Sent by the /api/events proxy when missed events can't be replayed
+  resync: { reason: string };
+}
+
+export type SSEEventType = keyof SSEEventMap;
+
+const useSSEContext = () => {
+  const context = useContext(SSEContext);
+  if (!context) {
+    throw new Error("SSE hooks must be used inside <SSEProvider>");
+  }
+  return context;
+};
+
+// Subscribe to a single event type on the shared connection
+export const useSSEEvent = <T extends SSEEventType>(
+  eventType: T,
+  handler: (data: SSEEventMap[T]) => void
+) => {
+  const { subscribe } = useSSEContext();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return subscribe(eventType, (data) => {
+      handlerRef.current(data as SSEEventMap[T]);
+    });
+  }, [subscribe, eventType]);
+};
+
+// Subscribe to several event types with one handler (e.g. for event logs)
+export const useSSEEvents = (
+  eventTypes: readonly SSEEventType[],
+  handler: (eventType: SSEEventType, data: Record<string, unknown>) => void
+) => {
+  const { subscribe } = useSSEContext();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    const unsubscribers = eventTypes.map((eventType) =>
+      subscribe(eventType, (data) => {
+        handlerRef.current(eventType, data as Record<string, unknown>);
+      })
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [subscribe, eventTypes]);
+};
+
+// Connection state of the shared EventSource
+export const useSSEConnection = (): SSEConnectionStatus => {
+  return useSSEContext().status;
+};
@@ -0,0 +1,263 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useSSEEvent } from "./useSSE";
+import { hasThresholds, stockCategoryOf, stockLevelOf, type Stock, type StockUpdate } from "./useStock";
+import { createNextOccurrence, isPurchaseTodo, normalizeTodo, type TodoItem } from "./useTodos";
+import { guessCategory } from "@/lib/categories";
+import { normalizeWords, similarity, DUPLICATE_THRESHOLD } from "@/lib/duplicates";
+import { displayQuantity, restockedQuantity } from "@/lib/quantity";
+import type { TodoRecurrence } from "@/lib/recurrence";
+
+const CHECKED_KEY = "voice-ai-shopping-checked";
+
+export interface ShoppingEntry {
+  // "stock:<id>" or "todo:<id>"
+  key: string;
+  name: string;
+  // "OUT", "LOW - 1 can", or the to-do's list
+  detail: string | null;
+  category: string;
+  // From the stock entry, if it has one
+  aisle: string | null;
+  stockId?: string;
+  // A purchase to-do for the same thing as a stock entry shares its line
+  todoId?: string;
+}
+
+// An entry ticked off while shopping, with what's needed to untick it
+export interface CheckedEntry extends ShoppingEntry {
+  previousStock?: StockUpdate;
+  todoRecurrence?: TodoRecurrence | null;
+  spawnedTodoId?: string;
+}
+
+interface UseShoppingListReturn {
+  entries: ShoppingEntry[];
+  checked: CheckedEntry[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  check: (entry: ShoppingEntry) => Promise<void>;
+  uncheck: (entry: CheckedEntry) => Promise<void>;
+  clearChecked: () => void;
+}
+
+// Leading "buy"/"pick up" isn't part of the item's name
+const purchaseName = (content: string) => content.trim().replace(/^(buy|pick up|restock)\s+/i, "");
+
+const loadChecked = (): CheckedEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CHECKED_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveChecked = (entries: CheckedEntry[]) => {
+  try {
+    localStorage.setItem(CHECKED_KEY, JSON.stringify(entries));
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+const patchTodo = async (id: string, updates: Record<string, unknown>): Promise<TodoItem> => {
+  const response = await fetch(`/api/todos/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(updates),
+  });
+  if (!response.ok) throw new Error("Failed to update todo");
+  return normalizeTodo(await response.json());
+};
+
+/**
+ * Everything to buy: stock entries that are low or out, plus purchase to-dos
+ * from every list. Ticking an entry off restocks it (stock_level back to
+ * sufficient, or the quantity raised past its thresholds) and completes its
+ * to-do; ticked entries stay visible until cleared so they can be unticked.
+ */
+export const useShoppingList = (
+  stock: Stock[],
+  updateStock: (id: string, updates: StockUpdate) => Promise<void>
+): UseShoppingListReturn => {
+  const [todos, setTodos] = useState<TodoItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checked, setChecked] = useState<CheckedEntry[]>([]);
+
+  // Restore what was ticked off before a reload (browser-only)
+  useEffect(() => {
+    setChecked(loadChecked());
+  }, []);
+
+  const updateChecked = useCallback((update: (prev: CheckedEntry[]) => CheckedEntry[]) => {
+    setChecked((prev) => {
+      const next = update(prev);
+      saveChecked(next);
+      return next;
+    });
+  }, []);
+
+  // Pending to-dos from every list
+  const fetchTodos = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/todos?include_completed=false");
+      if (!response.ok) throw new Error("Failed to fetch todos");
+      const data = await response.json();
+      const todoList = Array.isArray(data) ? data : (data.todos || []);
+      setTodos(todoList.map(normalizeTodo));
+    } catch (err) {
+      console.error("Failed to fetch todos for shopping:", err);
+      setError("Failed to load purchase to-dos");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTodos();
+  }, [fetchTodos]);
+
+  useSSEEvent("resync", () => {
+    fetchTodos();
+  });
+
+  // SSE listeners keep the pending to-dos current without refetching
+  useSSEEvent("todo_created", (data) => {
+    const todo = normalizeTodo(data);
+    if (todo.completed) return;
+    setTodos((prev) => (prev.some((item) => item.id === todo.id) ? prev : [...prev, todo]));
+  });
+
+  useSSEEvent("todo_updated", (data) => {
+    const todo = normalizeTodo(data);
+    // Completed to-dos drop off, reopened ones come back
+    setTodos((prev) => {
+      const others = prev.filter((item) => item.id !== todo.id);
+      if (todo.completed) return others;
+      return others.length === prev.length
+        ? [...prev, todo]
+        : prev.map((item) => (item.id === todo.id ? todo : item));
+    });
+  });
+
+  useSSEEvent("todo_deleted", (data) => {
+    setTodos((prev) => prev.filter((item) => item.id !== data.id));
+  });
+
+  const entries = useMemo(() => {
+    const checkedKeys = new Set(checked.map((entry) => entry.key));
+    const stockEntries: ShoppingEntry[] = stock
+      .filter((s) => stockLevelOf(s).level !== "sufficient")
+      .map((s) => {
+        const level = stockLevelOf(s).level === "out_of_stock" ? "OUT" : "LOW";
+        const quantity = displayQuantity(s.quantity);
+        return {
+          key: `stock:${s.id}`,
+          name: s.item,
+          detail: quantity && quantity !== "0" ? `${level} - ${quantity}` : level,
+          category: stockCategoryOf(s).category,
+          aisle: s.aisle ?? null,
+          stockId: s.id,
+        };
+      });
+
+    const todoEntries: ShoppingEntry[] = [];
+    todos.filter(isPurchaseTodo).forEach((todo) => {
+      const name = purchaseName(todo.content);
+      const words = normalizeWords(name);
+      const match = stockEntries.find(
+        (entry) => !entry.todoId && similarity(words, normalizeWords(entry.name)) >= DUPLICATE_THRESHOLD
+      );
+      if (match) {
+        match.todoId = todo.id;
+        return;
+      }
+      todoEntries.push({
+        key: `todo:${todo.id}`,
+        name,
+        detail: todo.list,
+        category: guessCategory(name),
+        aisle: null,
+        todoId: todo.id,
+      });
+    });
+
+    return [...stockEntries, ...todoEntries].filter((entry) => !checkedKeys.has(entry.key));
+  }, [stock, todos, checked]);
+
+  const check = useCallback(
+    async (entry: ShoppingEntry) => {
+      const checkedEntry: CheckedEntry = { ...entry };
+
+      const stockItem = entry.stockId ? stock.find((s) => s.id === entry.stockId) : undefined;
+      if (stockItem) {
+        checkedEntry.previousStock = {
+          quantity: stockItem.quantity,
+          stock_level: stockItem.stock_level,
+          level_override: stockItem.level_override ?? false,
+        };
+        // With thresholds the quantity is raised past them, so the level stays
+        // automatic and the item comes back once it runs low again
+        const quantity = hasThresholds(stockItem) ? restockedQuantity(stockItem.quantity, stockItem) : null;
+        await updateStock(
+          stockItem.id,
+          quantity ? { quantity, stock_level: "sufficient", level_override: false } : { stock_level: "sufficient" }
+        );
+      }
+
+      const todo = entry.todoId ? todos.find((t) => t.id === entry.todoId) : undefined;
+      if (todo) {
+        checkedEntry.todoRecurrence = todo.recurrence;
+        const completed = await patchTodo(
+          todo.id,
+          todo.recurrence ? { completed: true, recurrence: null } : { completed: true }
+        );
+        if (todo.recurrence) {
+          const spawned = await createNextOccurrence(completed, todo.recurrence);
+          checkedEntry.spawnedTodoId = spawned?.id;
+        }
+      }
+
+      updateChecked((prev) => [...prev.filter((e) => e.key !== entry.key), checkedEntry]);
+    },
+    [stock, todos, updateStock, updateChecked]
+  );
+
+  const uncheck = useCallback(
+    async (entry: CheckedEntry) => {
+      if (entry.stockId && entry.previousStock) {
+        await updateStock(entry.stockId, entry.previousStock);
+      }
+      if (entry.todoId) {
+        if (entry.spawnedTodoId) {
+          await fetch(`/api/todos/${entry.spawnedTodoId}`, { method: "DELETE" });
+        }
+        await patchTodo(entry.todoId, {
+          completed: false,
+          ...(entry.todoRecurrence ? { recurrence: entry.todoRecurrence } : {}),
+        });
+      }
+      updateChecked((prev) => prev.filter((e) => e.key !== entry.key));
+    },
+    [updateStock, updateChecked]
+  );
+
+  const clearChecked = useCallback(() => updateChecked(() => []), [updateChecked]);
+
+  return {
+    entries,
+    checked,
+    isLoading,
+    error,
+    refresh: fetchTodos,
+    check,
+    uncheck,
+    clearChecked,
+  };
+};
@@ -1,6 +1,9 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { useSSEEvent } from "./useSSE";
+import { deriveStockLevel } from "@/lib/quantity";
+import { guessCategory } from "@/lib/categories";
 
 export type StockLevel = "out_of_stock" | "running_low" | "sufficient";
 
@@ -10,15 +13,54 @@ export interface Stock {
   quantity: string;
   stock_level: StockLevel;
   timestamp: string;
+  // Thresholds in the quantity's unit; with either set the level is derived
+  low_threshold?: number | null;
+  out_threshold?: number | null;
+  // Level was set by hand and wins over the thresholds
+  level_override?: boolean;
+  // Category id from CATEGORIES; entries without one are grouped by a guess
+  category?: string | null;
+  // Free text, e.g. "4" or "back wall"
+  aisle?: string | null;
 }
 
+export type StockUpdate = Partial<
+  Pick<
+    Stock,
+    "item" | "quantity" | "stock_level" | "low_threshold" | "out_threshold" | "level_override" | "category" | "aisle"
+  >
+>;
+
+// Where an entry sits in the store, given when it's created
+export type StockPlacement = Pick<StockUpdate, "category" | "aisle">;
+
+// Everything else an entry can be created with (thresholds, override, placement)
+export type StockDetails = Omit<StockUpdate, "item" | "quantity" | "stock_level">;
+
+export const hasThresholds = (stock: Stock) => stock.low_threshold != null || stock.out_threshold != null;
+
+/**
+ * The level to show and sort by. Derived from the quantity when the item has
+ * thresholds and no manual override, otherwise the stored level. Derived
+ * levels are written back with the app's own edits; a quantity changed by
+ * voice shows the derived level here until then.
+ */
+export function stockLevelOf(stock: Stock): { level: StockLevel; derived: boolean } {
+  const derived = stock.level_override ? null : deriveStockLevel(stock.quantity, stock);
+  return derived ? { level: derived, derived: true } : { level: stock.stock_level, derived: false };
+}
+
+// The stored category, or one guessed from the name (e.g. for items added by voice)
+export const stockCategoryOf = (stock: Stock): { category: string; guessed: boolean } =>
+  stock.category ? { category: stock.category, guessed: false } : { category: guessCategory(stock.item), guessed: true };
+
 interface UseStockReturn {
   stock: Stock[];
   isLoading: boolean;
   error: string | null;
   refresh: () => Promise<void>;
-  createStock: (item: string, quantity: string, stockLevel: StockLevel) => Promise<void>;
-  updateStock: (id: string, updates: { item?: string; quantity?: string; stock_level?: StockLevel }) => Promise<void>;
+  createStock: (item: string, quantity: string, stockLevel: StockLevel, details?: StockDetails) => Promise<void>;
+  updateStock: (id: string, updates: StockUpdate) => Promise<void>;
   deleteStock: (id: string) => Promise<void>;
 }
 
@@ -58,76 +100,59 @@ export const useStock = (): UseStockReturn => {
     }
   }, [fetchStock]);
 
-  // SSE listener for real-time updates
-  useEffect(() => {
-    // Use proxied SSE endpoint to work in remote/Tailscale environments
-    const sseUrl = "/api/events";
-    const es = new EventSource(sseUrl);
-
-    es.addEventListener("stock_created", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        // Only add if not already present (avoids duplicates)
-        setStock((prev) => {
-          if (prev.some((s) => s.id === data.id)) {
-            return prev;
-          }
-          return [...prev, data];
-        });
-      } catch {
-        // Ignore parse errors
-      }
-    });
-
-    es.addEventListener("stock_updated", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setStock((prev) =>
-          prev.map((s) => (s.id === data.id ? { ...s, ...data } : s))
-        );
-      } catch {
-        // Ignore parse errors
+  // Missed events couldn't be replayed after a reconnect - reload everything
+  useSSEEvent("resync", () => {
+    fetchStock();
+  });
+
+  // SSE listeners for real-time updates
+  useSSEEvent("stock_created", (data) => {
+    // Only add if not already present (avoids duplicates)
+    setStock((prev) => {
+      if (prev.some((s) => s.id === data.id)) {
+        return prev;
       }
+      return [...prev, data];
     });
+  });
 
-    es.addEventListener("stock_deleted", (e) => {
-      try {
-        const data = JSON.parse(e.data);
-        setStock((prev) => prev.filter((s) => s.id !== data.id));
-      } catch {
-        // Ignore parse errors
-      }
-    });
+  useSSEEvent("stock_updated", (data) => {
+    setStock((prev) =>
+      prev.map((s) => (s.id === data.id ? { ...s, ...data } : s))
+    );
+  });
 
-    return () => {
-      es.close();
-    };
-  }, []);
+  useSSEEvent("stock_deleted", (data) => {
+    setStock((prev) => prev.filter((s) => s.id !== data.id));
+  });
 
   // Create a new stock entry (SSE will add it to state)
-  const createStock = useCallback(async (item: string, quantity: string, stockLevel: StockLevel) => {
-    try {
-      const response = await fetch("/api/stock", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ item, quantity, stock_level: stockLevel }),
-      });
+  const createStock = useCallback(
+    async (item: string, quantity: string, stockLevel: StockLevel, details?: StockDetails) => {
+      try {
+        const response = await fetch("/api/stock", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ item, quantity, stock_level: stockLevel, ...details }),
+        });
 
-      if (!response.ok) {
-        throw new Error("Failed to create stock entry");
-      }
+        if (!response.ok) {
+          throw new Error("Failed to create stock entry");
+        }
 
-      // Don't add locally - SSE stock_created event will add it
-      await response.json();
-    } catch (err) {
-      console.error("Failed to create stock entry:", err);
-      throw err;
-    }
-  }, []);
+        // Don't add locally - SSE stock_created event will add it
+        await response.json();
+      } catch (err) {
+        console.error("Failed to create stock entry:", err);
+        throw err;
+      }
+    },
+    []
+  );
 
   // Update a stock entry
   const updateStock = useCallback(
-    async (id: string, updates: { item?: string; quantity?: string; stock_level?: StockLevel }) => {
+    async (id: string, updates: StockUpdate) => {
       try {
         const response = await fetch(`/api/stock?id=${encodeURIComponent(id)}`, {
           method: "PUT",
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useSSEEvent } from "./useSSE";
+
+const STORAGE_KEY = "voice-ai-todo-list";
+
+export interface TodoList {
+  name: string;
+  pending_count: number;
+  total_count: number;
+}
+
+export interface TodoListsResponse {
+  lists: TodoList[];
+  default_list: string;
+}
+
+interface UseTodoListsReturn {
+  lists: TodoList[];
+  defaultList: string | null;
+  // null until the lists have loaded (or when the server has no lists)
+  activeList: string | null;
+  setActiveList: (name: string) => void;
+  createList: (name: string) => Promise<void>;
+  deleteList: (name: string) => Promise<void>;
+  setDefaultList: (name: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const getStoredList = (): string | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const storeList = (name: string) => {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(STORAGE_KEY, name);
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const useTodoLists = (): UseTodoListsReturn => {
+  const [lists, setLists] = useState<TodoList[]>([]);
+  const [defaultList, setDefaultListState] = useState<string | null>(null);
+  const [selectedList, setSelectedList] = useState<string | null>(null);
+  const initialLoadDone = useRef(false);
+
+  // Fall back to the default list if the chosen one is gone
+  const activeList =
+    selectedList && lists.some((l) => l.name === selectedList)
+      ? selectedList
+      : defaultList;
+
+  const applyResponse = (data: TodoListsResponse) => {
+    setLists(data.lists || []);
+    setDefaultListState(data.default_list || null);
+  };
+
+  // Lists with their per-list counts (older servers have no lists at all)
+  const fetchLists = useCallback(async () => {
+    try {
+      const response = await fetch("/api/todo-lists");
+      if (!response.ok) return;
+      applyResponse(await response.json());
+    } catch {
+      console.warn("Failed to fetch todo lists");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!initialLoadDone.current) {
+      initialLoadDone.current = true;
+      setSelectedList(getStoredList());
+      fetchLists();
+    }
+  }, [fetchLists]);
+
+  useSSEEvent("todo_lists_changed", (data) => {
+    applyResponse(data);
+  });
+
+  // Any todo change can move a pending count
+  useSSEEvent("todo_created", () => fetchLists());
+  useSSEEvent("todo_updated", () => fetchLists());
+  useSSEEvent("todo_deleted", () => fetchLists());
+  useSSEEvent("resync", () => fetchLists());
+
+  const setActiveList = useCallback((name: string) => {
+    setSelectedList(name);
+    storeList(name);
+  }, []);
+
+  const createList = useCallback(
+    async (name: string) => {
+      const response = await fetch("/api/todo-lists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to create list"));
+      }
+      const created = await response.json();
+      await fetchLists();
+      setActiveList(created.name);
+    },
+    [fetchLists, setActiveList]
+  );
+
+  const deleteList = useCallback(
+    async (name: string) => {
+      const response = await fetch(`/api/todo-lists/${encodeURIComponent(name)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to delete list"));
+      }
+      await fetchLists();
+    },
+    [fetchLists]
+  );
+
+  const setDefaultList = useCallback(
+    async (name: string) => {
+      const response = await fetch("/api/todo-lists/default", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to change the default list"));
+      }
+      await fetchLists();
+    },
+    [fetchLists]
+  );
+
+  return {
+    lists,
+    defaultList,
+    activeList,
+    setActiveList,
+    createList,
+    deleteList,
+    setDefaultList,
+    refresh: fetchLists,
+  };
+};
@@ -0,0 +1,427 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useSSEEvent } from "./useSSE";
+import { nextOccurrenceOf, todayString, type TodoRecurrence } from "@/lib/recurrence";
+
+export type TodoPriority = "low" | "normal" | "high";
+
+export interface ChecklistItem {
+  id: string;
+  content: string;
+  completed: boolean;
+}
+
+export interface TodoItem {
+  id: string;
+  content: string;
+  completed: boolean;
+  created_at: string;
+  completed_at: string | null;
+  due_date: string | null; // YYYY-MM-DD
+  due_time: string | null; // HH:MM local time; with a due date this sets a reminder
+  snoozed_until: string | null; // ISO timestamp the reminder was snoozed to
+  priority: TodoPriority;
+  notes: string | null;
+  recurrence: TodoRecurrence | null;
+  checklist: ChecklistItem[];
+  list: string | null; // null on servers without named lists
+  purchase: boolean | null; // on the shopping list; null guesses from the wording
+}
+
+export type TodoUpdates = Partial<
+  Pick<
+    TodoItem,
+    | "content"
+    | "completed"
+    | "due_date"
+    | "due_time"
+    | "snoozed_until"
+    | "priority"
+    | "notes"
+    | "recurrence"
+    | "checklist"
+    | "list"
+    | "purchase"
+  >
+>;
+
+type UndoAction =
+  | { type: "create"; item: TodoItem }
+  // `spawned` is the next occurrence created by completing a recurring item
+  | { type: "update"; item: TodoItem; previousState: TodoItem; spawned?: TodoItem }
+  | { type: "delete"; item: TodoItem };
+
+interface UndoEntry {
+  action: UndoAction;
+  timestamp: number;
+}
+
+interface UseTodosReturn {
+  todos: TodoItem[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createTodo: (content: string) => Promise<void>;
+  updateTodo: (id: string, updates: TodoUpdates) => Promise<void>;
+  deleteTodo: (id: string) => Promise<void>;
+  undo: () => Promise<void>;
+  canUndo: boolean;
+}
+
+const UNDO_TIMEOUT_MS = 30000;
+
+// Servers that predate the newer to-do fields leave them out
+export const normalizeTodo = (todo: Partial<TodoItem> & { id: string }): TodoItem => ({
+  content: "",
+  completed: false,
+  created_at: new Date().toISOString(),
+  completed_at: null,
+  ...todo,
+  due_date: todo.due_date ?? null,
+  due_time: todo.due_time ?? null,
+  snoozed_until: todo.snoozed_until ?? null,
+  priority: todo.priority ?? "normal",
+  notes: todo.notes ?? null,
+  recurrence: todo.recurrence ?? null,
+  checklist: todo.checklist ?? [],
+  list: todo.list ?? null,
+  purchase: todo.purchase ?? null,
+});
+
+// "Buy batteries", "pick up milk"... count as purchases unless marked otherwise
+const PURCHASE_WORDING = /^(buy|pick up|restock)\b/i;
+
+// Whether a todo belongs on the shopping list
+export const isPurchaseTodo = (todo: TodoItem) => todo.purchase ?? PURCHASE_WORDING.test(todo.content.trim());
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Create the occurrence that follows a recurring todo which was just completed
+ * (with its own rule cleared). If that fails the rule is put back on the
+ * completed item so it isn't lost, and null is returned.
+ */
+export const createNextOccurrence = async (
+  todo: TodoItem,
+  recurrence: TodoRecurrence
+): Promise<TodoItem | null> => {
+  const response = await fetch("/api/todos", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(nextOccurrenceOf(todo, recurrence, todayString())),
+  });
+  if (response.ok) {
+    return normalizeTodo(await response.json());
+  }
+
+  await fetch(`/api/todos/${todo.id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ recurrence }),
+  });
+  return null;
+};
+
+// `list` limits the hook to one named list; null shows every todo
+export const useTodos = (list: string | null = null): UseTodosReturn => {
+  const [todos, setTodos] = useState<TodoItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastAction, setLastAction] = useState<UndoEntry | null>(null);
+  const latestRequest = useRef(0);
+
+  const inList = useCallback((todo: TodoItem) => !list || todo.list === list, [list]);
+
+  // Fetch all todos (including completed) on the current list from API
+  const fetchTodos = useCallback(async () => {
+    // Switching lists quickly mustn't let an older response win
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({ include_completed: "true" });
+      if (list) query.set("list", list);
+      const response = await fetch(`/api/todos?${query}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch todos");
+      }
+      const data = await response.json();
+      // Handle both array response and object with todos property
+      const todoList = Array.isArray(data) ? data : (data.todos || []);
+      if (requestId === latestRequest.current) {
+        setTodos(todoList.map(normalizeTodo));
+      }
+    } catch (err) {
+      console.error("Failed to fetch todos:", err);
+      if (requestId === latestRequest.current) {
+        setError("Failed to load todos");
+      }
+    } finally {
+      if (requestId === latestRequest.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [list]);
+
+  // Load on mount and whenever the list changes
+  useEffect(() => {
+    fetchTodos();
+  }, [fetchTodos]);
+
+  // Clear undo after 30 seconds
+  useEffect(() => {
+    if (!lastAction) return;
+
+    const timeout = setTimeout(() => {
+      setLastAction(null);
+    }, UNDO_TIMEOUT_MS);
+
+    return () => clearTimeout(timeout);
+  }, [lastAction]);
+
+  // Missed events couldn't be replayed after a reconnect - reload everything
+  useSSEEvent("resync", () => {
+    fetchTodos();
+  });
+
+  // SSE listeners for real-time updates
+  useSSEEvent("todo_created", (data) => {
+    const todo = normalizeTodo(data);
+    if (!inList(todo)) return;
+    // Only add if not already present (avoids duplicates)
+    setTodos((prev) => {
+      if (prev.some((item) => item.id === todo.id)) {
+        return prev;
+      }
+      return [...prev, todo];
+    });
+  });
+
+  useSSEEvent("todo_updated", (data) => {
+    const todo = normalizeTodo(data);
+    // Items moved onto or off the current list appear or disappear
+    setTodos((prev) => {
+      const others = prev.filter((item) => item.id !== todo.id);
+      if (!inList(todo)) return others;
+      return others.length === prev.length
+        ? [...prev, todo]
+        : prev.map((item) => (item.id === todo.id ? todo : item));
+    });
+  });
+
+  useSSEEvent("todo_deleted", (data) => {
+    setTodos((prev) => prev.filter((item) => item.id !== data.id));
+  });
+
+  // Create a new todo (SSE will add it to state)
+  const createTodo = useCallback(async (content: string) => {
+    const response = await fetch("/api/todos", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      // Without a list the server uses its default list
+      body: JSON.stringify(list ? { content, list } : { content }),
+    });
+
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to create todo"));
+    }
+
+    const createdTodo = normalizeTodo(await response.json());
+    setLastAction({ action: { type: "create", item: createdTodo }, timestamp: Date.now() });
+  }, [list]);
+
+  // Update a todo (partial update, applied optimistically)
+  const updateTodo = useCallback(
+    async (id: string, updates: TodoUpdates) => {
+      const previousState = todos.find((t) => t.id === id);
+      if (!previousState) return;
+
+      const completedAt =
+        updates.completed === undefined || updates.completed === previousState.completed
+          ? previousState.completed_at
+          : updates.completed
+            ? new Date().toISOString()
+            : null;
+
+      // Completing a recurring item hands its rule on to the next occurrence,
+      // so un-completing it later can't spawn a second copy
+      const recurrence = updates.recurrence === undefined ? previousState.recurrence : updates.recurrence;
+      const spawnsNext = updates.completed === true && !previousState.completed && recurrence !== null;
+      const patch: TodoUpdates = spawnsNext ? { ...updates, recurrence: null } : updates;
+
+      setTodos((prev) =>
+        prev
+          .map((t) => (t.id === id ? { ...t, ...patch, completed_at: completedAt } : t))
+          .filter(inList)
+      );
+
+      const response = await fetch(`/api/todos/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+
+      if (!response.ok) {
+        // Revert on failure (an attempted move has already dropped it from the list)
+        setTodos((prev) =>
+          prev.some((t) => t.id === id)
+            ? prev.map((t) => (t.id === id ? previousState : t))
+            : [...prev, previousState]
+        );
+        throw new Error(await readError(response, "Failed to update todo"));
+      }
+
+      const updatedTodo = normalizeTodo(await response.json());
+      setTodos((prev) => prev.map((t) => (t.id === id ? updatedTodo : t)).filter(inList));
+
+      const spawned =
+        spawnsNext && recurrence ? await createNextOccurrence(updatedTodo, recurrence) : null;
+
+      setLastAction({
+        action: { type: "update", item: updatedTodo, previousState, spawned: spawned ?? undefined },
+        timestamp: Date.now(),
+      });
+
+      if (spawnsNext && !spawned) {
+        throw new Error("Completed, but failed to schedule the next occurrence");
+      }
+    },
+    [todos, inList]
+  );
+
+  // Delete a todo
+  const deleteTodo = useCallback(
+    async (id: string) => {
+      // Store for undo before deleting
+      const itemToDelete = todos.find((t) => t.id === id);
+
+      const response = await fetch(`/api/todos/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to delete todo"));
+      }
+
+      if (itemToDelete) {
+        setLastAction({ action: { type: "delete", item: itemToDelete }, timestamp: Date.now() });
+      }
+      // SSE event will remove it from state, but also remove locally for immediate feedback
+      setTodos((prev) => prev.filter((t) => t.id !== id));
+    },
+    [todos]
+  );
+
+  // Undo the last create, update or delete
+  const undo = useCallback(async () => {
+    if (!lastAction) return;
+
+    const { action } = lastAction;
+
+    if (action.type === "delete") {
+      // Recreate the item, then restore the fields POST doesn't take
+      const response = await fetch("/api/todos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          action.item.list
+            ? { content: action.item.content, list: action.item.list }
+            : { content: action.item.content }
+        ),
+      });
+      if (!response.ok) throw new Error("Failed to restore todo");
+
+      const restored = await response.json();
+      const { due_date, due_time, snoozed_until, priority, notes, recurrence, checklist, completed, purchase } =
+        action.item;
+      const patch = await fetch(`/api/todos/${restored.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          due_date,
+          due_time,
+          snoozed_until,
+          priority,
+          notes,
+          recurrence,
+          checklist,
+          completed,
+          purchase,
+        }),
+      });
+      if (!patch.ok) throw new Error("Failed to restore todo details");
+    } else if (action.type === "create") {
+      const response = await fetch(`/api/todos/${action.item.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to undo create");
+      // Remove locally for immediate feedback
+      setTodos((prev) => prev.filter((t) => t.id !== action.item.id));
+    } else if (action.type === "update") {
+      if (action.spawned) {
+        const spawnedId = action.spawned.id;
+        const response = await fetch(`/api/todos/${spawnedId}`, {
+          method: "DELETE",
+        });
+        if (!response.ok) throw new Error("Failed to remove the next occurrence");
+        setTodos((prev) => prev.filter((t) => t.id !== spawnedId));
+      }
+
+      const {
+        content,
+        completed,
+        due_date,
+        due_time,
+        snoozed_until,
+        priority,
+        notes,
+        recurrence,
+        checklist,
+        purchase,
+        list: previousList,
+      } = action.previousState;
+      const response = await fetch(`/api/todos/${action.item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content,
+          completed,
+          due_date,
+          due_time,
+          snoozed_until,
+          priority,
+          notes,
+          recurrence,
+          checklist,
+          purchase,
+          ...(previousList ? { list: previousList } : {}),
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to undo edit");
+    }
+
+    // SSE events will update state
+    setLastAction(null);
+  }, [lastAction]);
+
+  return {
+    todos,
+    isLoading,
+    error,
+    refresh: fetchTodos,
+    createTodo,
+    updateTodo,
+    deleteTodo,
+    undo,
+    canUndo: lastAction !== null,
+  };
+};
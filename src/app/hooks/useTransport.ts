@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { AVAILABLE_TRANSPORTS, DEFAULT_TRANSPORT, type TransportType } from "../../config";
+
+const STORAGE_KEY = "voice-ai-transport";
+
+interface UseTransportReturn {
+  transport: TransportType;
+  availableTransports: TransportType[];
+  setTransport: (transport: TransportType) => void;
+  isLoading: boolean;
+}
+
+// Get stored transport from localStorage
+const getStoredTransport = (): string | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+// Store transport in localStorage
+const storeTransport = (transport: TransportType) => {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(STORAGE_KEY, transport);
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+// /api/transports needs a session, so nothing is fetched until "enabled"
+export const useTransport = (enabled: boolean): UseTransportReturn => {
+  const [availableTransports, setAvailableTransports] =
+    useState<TransportType[]>(AVAILABLE_TRANSPORTS);
+  const [transport, setTransportState] = useState<TransportType>(DEFAULT_TRANSPORT);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Fetch the transports the server offers, then restore this device's choice
+  useEffect(() => {
+    if (!enabled) return;
+
+    const fetchTransports = async () => {
+      let offered = AVAILABLE_TRANSPORTS;
+      let serverDefault = DEFAULT_TRANSPORT;
+      try {
+        const response = await fetch("/api/transports");
+        if (response.ok) {
+          const data = await response.json();
+          if (Array.isArray(data.transports) && data.transports.length > 0) {
+            offered = data.transports;
+            serverDefault = data.default;
+          }
+        }
+      } catch {
+        console.warn("Failed to fetch transports, offering all");
+      }
+
+      const stored = getStoredTransport();
+      const match = offered.find((t) => t === stored);
+
+      setAvailableTransports(offered);
+      setTransportState(match || serverDefault);
+      setIsLoading(false);
+    };
+
+    fetchTransports();
+  }, [enabled]);
+
+  const setTransport = useCallback((next: TransportType) => {
+    setTransportState(next);
+    storeTransport(next);
+  }, []);
+
+  return {
+    transport,
+    availableTransports,
+    setTransport,
+    isLoading,
+  };
+};
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { PipecatClient } from "@pipecat-ai/client-js";
+import type { TransportType } from "../../config";
+
+const POLL_INTERVAL_MS = 1000;
+
+export interface AudioStreamStats {
+  codec: string | null;
+  bitrate_kbps: number | null;
+  jitter_ms: number | null;
+  packets_lost: number | null;
+  packet_loss_percent: number | null;
+}
+
+export interface WebRTCStatsSummary {
+  timestamp: number;
+  ice_connection_state: RTCIceConnectionState;
+  local_candidate_type: string | null;
+  remote_candidate_type: string | null;
+  protocol: string | null;
+  rtt_ms: number | null;
+  inbound_audio: AudioStreamStats | null;
+  outbound_audio: AudioStreamStats | null;
+}
+
+interface UseWebRTCStatsReturn {
+  stats: WebRTCStatsSummary | null;
+  // Why stats can't be shown right now, if they can't
+  unavailableReason: string | null;
+  downloadSnapshot: () => Promise<void>;
+}
+
+// SmallWebRTCTransport keeps its RTCPeerConnection in a non-public "pc" field;
+// other transports (Daily) don't expose one at all
+const getPeerConnection = (client: PipecatClient): RTCPeerConnection | null => {
+  const transport = client.transport as unknown as { pc?: RTCPeerConnection | null };
+  return transport?.pc ?? null;
+};
+
+const toMs = (seconds: unknown): number | null =>
+  typeof seconds === "number" ? Math.round(seconds * 1000 * 10) / 10 : null;
+
+const statsToArray = (report: RTCStatsReport): RTCStats[] => {
+  const entries: RTCStats[] = [];
+  report.forEach((stat) => entries.push(stat));
+  return entries;
+};
+
+// Bitrate from the byte counter delta since the previous poll
+const bitrateKbps = (
+  bytes: number | undefined,
+  timestamp: number,
+  previous: { bytes: number; timestamp: number } | undefined
+): number | null => {
+  if (bytes === undefined || !previous || timestamp <= previous.timestamp) return null;
+  return Math.round(((bytes - previous.bytes) * 8) / (timestamp - previous.timestamp));
+};
+
+export const useWebRTCStats = (
+  client: PipecatClient,
+  transport: TransportType,
+  isConnected: boolean
+): UseWebRTCStatsReturn => {
+  const [stats, setStats] = useState<WebRTCStatsSummary | null>(null);
+  const [unavailableReason, setUnavailableReason] = useState<string | null>(null);
+  const previousBytesRef = useRef<Record<string, { bytes: number; timestamp: number }>>({});
+
+  const summarize = useCallback(
+    (pc: RTCPeerConnection, report: RTCStatsReport): WebRTCStatsSummary => {
+      type AnyStats = RTCStats & Record<string, unknown>;
+      const all = statsToArray(report) as AnyStats[];
+      const byId = new Map<string, AnyStats>(all.map((s) => [s.id, s]));
+
+      // Prefer the transport's selected pair, fall back to the nominated one
+      const transportStats = all.find((s) => s.type === "transport");
+      const pair: AnyStats | undefined =
+        (transportStats?.selectedCandidatePairId
+          ? byId.get(transportStats.selectedCandidatePairId as string)
+          : undefined) ||
+        all.find((s) => s.type === "candidate-pair" && s.nominated && s.state === "succeeded");
+      const local = pair ? byId.get(pair.localCandidateId as string) : undefined;
+      const remote = pair ? byId.get(pair.remoteCandidateId as string) : undefined;
+
+      const codecName = (codecId: unknown) => {
+        const codec = typeof codecId === "string" ? byId.get(codecId) : undefined;
+        if (!codec) return null;
+        const mime = String(codec.mimeType || "").replace(/^audio\//, "");
+        return codec.clockRate ? `${mime}/${codec.clockRate}` : mime;
+      };
+
+      const audioStats = (type: "inbound-rtp" | "outbound-rtp"): AudioStreamStats | null => {
+        const rtp = all.find((s) => s.type === type && s.kind === "audio");
+        if (!rtp) return null;
+
+        const bytesKey = type === "inbound-rtp" ? "bytesReceived" : "bytesSent";
+        const bytes = rtp[bytesKey] as number | undefined;
+        const bitrate = bitrateKbps(bytes, rtp.timestamp, previousBytesRef.current[rtp.id]);
+        if (bytes !== undefined) {
+          previousBytesRef.current[rtp.id] = { bytes, timestamp: rtp.timestamp };
+        }
+
+        // Outbound loss and jitter are what the bot reports back about our stream
+        const source =
+          type === "inbound-rtp"
+            ? rtp
+            : all.find((s) => s.type === "remote-inbound-rtp" && s.localId === rtp.id);
+
+        const lost = typeof source?.packetsLost === "number" ? source.packetsLost : null;
+        const received = type === "inbound-rtp" ? (rtp.packetsReceived as number | undefined) : undefined;
+        let lossPercent: number | null = null;
+        if (lost !== null && received !== undefined && received + lost > 0) {
+          lossPercent = Math.round((lost / (received + lost)) * 1000) / 10;
+        } else if (typeof source?.fractionLost === "number") {
+          lossPercent = Math.round(source.fractionLost * 1000) / 10;
+        }
+
+        return {
+          codec: codecName(rtp.codecId),
+          bitrate_kbps: bitrate,
+          jitter_ms: toMs(source?.jitter),
+          packets_lost: lost,
+          packet_loss_percent: lossPercent,
+        };
+      };
+
+      return {
+        timestamp: Date.now(),
+        ice_connection_state: pc.iceConnectionState,
+        local_candidate_type: (local?.candidateType as string) ?? null,
+        remote_candidate_type: (remote?.candidateType as string) ?? null,
+        protocol: (local?.protocol as string) ?? null,
+        rtt_ms: toMs(pair?.currentRoundTripTime),
+        inbound_audio: audioStats("inbound-rtp"),
+        outbound_audio: audioStats("outbound-rtp"),
+      };
+    },
+    []
+  );
+
+  // Poll getStats() while connected
+  useEffect(() => {
+    if (!isConnected) {
+      setStats(null);
+      setUnavailableReason("Not connected");
+      previousBytesRef.current = {};
+      return;
+    }
+
+    let cancelled = false;
+
+    const poll = async () => {
+      const pc = getPeerConnection(client);
+      if (!pc) {
+        setUnavailableReason("This transport does not expose WebRTC stats (switch to SmallWebRTC)");
+        return;
+      }
+      try {
+        const report = await pc.getStats();
+        if (cancelled) return;
+        setStats(summarize(pc, report));
+        setUnavailableReason(null);
+      } catch (err) {
+        console.warn("[diagnostics] getStats failed:", err);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [client, isConnected, summarize]);
+
+  // Full raw report plus the summary, for attaching to bug reports
+  const downloadSnapshot = useCallback(async () => {
+    const pc = getPeerConnection(client);
+    const raw = pc ? statsToArray(await pc.getStats()) : [];
+
+    const snapshot = {
+      captured_at: new Date().toISOString(),
+      user_agent: navigator.userAgent,
+      transport,
+      connection: pc
+        ? {
+            ice_connection_state: pc.iceConnectionState,
+            ice_gathering_state: pc.iceGatheringState,
+            connection_state: pc.connectionState,
+            signaling_state: pc.signalingState,
+          }
+        : null,
+      summary: stats,
+      stats: raw,
+    };
+
+    const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `webrtc-stats-${snapshot.captured_at.replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [client, transport, stats]);
+
+  return {
+    stats,
+    unavailableReason,
+    downloadSnapshot,
+  };
+};
@@ -11,36 +11,79 @@ import {
 } from "@pipecat-ai/voice-ui-kit";
 
 import { App } from "./components/App";
-import { DEFAULT_TRANSPORT, TRANSPORT_CONFIG } from "../config";
+import { LockScreen } from "./components/LockScreen";
+import { SSEProvider } from "./components/SSEProvider";
+import { useAuth } from "./hooks/useAuth";
+import { useTransport } from "./hooks/useTransport";
+import { TRANSPORT_CONFIG } from "../config";
 
 export default function Home() {
-  const connectParams = TRANSPORT_CONFIG[DEFAULT_TRANSPORT];
+  const { user, setupRequired, isLoading, login, setup, logout } = useAuth();
+  const {
+    transport,
+    availableTransports,
+    setTransport,
+    isLoading: isLoadingTransport,
+  } = useTransport(!!user);
+  const connectParams = TRANSPORT_CONFIG[transport];
+
+  // Every /api route requires a session, so nothing below mounts until login
+  if (isLoading || !user) {
+    return (
+      <ThemeProvider defaultTheme="terminal" disableStorage>
+        <FullScreenContainer>
+          {isLoading ? (
+            <SpinLoader />
+          ) : (
+            <LockScreen
+              setupRequired={setupRequired}
+              onLogin={login}
+              onSetup={setup}
+            />
+          )}
+        </FullScreenContainer>
+      </ThemeProvider>
+    );
+  }
 
   return (
     <ThemeProvider defaultTheme="terminal" disableStorage>
       <FullScreenContainer>
-        <PipecatAppBase
-          connectParams={connectParams}
-          transportType={DEFAULT_TRANSPORT}
-        >
-          {({
-            client,
-            handleDisconnect,
-            error,
-          }: PipecatBaseChildProps) =>
-            !client ? (
-              <SpinLoader />
-            ) : error ? (
-              <ErrorCard>{error}</ErrorCard>
-            ) : (
-              <App
-                client={client}
-                connectParams={connectParams}
-                handleDisconnect={handleDisconnect}
-              />
-            )
-          }
-        </PipecatAppBase>
+        <SSEProvider>
+          {/* Keyed by transport so switching rebuilds the client */}
+          {isLoadingTransport ? (
+            <SpinLoader />
+          ) : (
+            <PipecatAppBase
+              key={transport}
+              connectParams={connectParams}
+              transportType={transport}
+            >
+              {({
+                client,
+                handleDisconnect,
+                error,
+              }: PipecatBaseChildProps) =>
+                !client ? (
+                  <SpinLoader />
+                ) : error ? (
+                  <ErrorCard>{error}</ErrorCard>
+                ) : (
+                  <App
+                    client={client}
+                    connectParams={connectParams}
+                    handleDisconnect={handleDisconnect}
+                    user={user}
+                    onLogout={logout}
+                    transport={transport}
+                    availableTransports={availableTransports}
+                    onSelectTransport={setTransport}
+                  />
+                )
+              }
+            </PipecatAppBase>
+          )}
+        </SSEProvider>
       </FullScreenContainer>
     </ThemeProvider>
   );
@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Location history is recorded from the chat server's events, so the SSE
+  // hub listens even while no browser is connected (Node runtime only)
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { sseHub } = await import("./lib/sseHub");
+    sseHub.keepOpen();
+  }
+}
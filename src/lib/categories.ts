@@ -0,0 +1,140 @@
+/**
+ * Shopping categories and a local keyword dictionary for guessing an item's
+ * category from its name ("olive oil" -> pantry, "bleach" -> cleaning).
+ * Nothing leaves the device; unknown items fall into "other".
+ */
+
+import { stem } from "./fuzzySearch";
+
+export interface Category {
+  id: string;
+  label: string;
+  // Single words or phrases, matched against the stemmed words of a name
+  keywords: string[];
+}
+
+// In rough walking order around a supermarket; "other" comes last
+export const CATEGORIES: Category[] = [
+  {
+    id: "produce",
+    label: "Fruit & Veg",
+    keywords: [
+      "apple", "banana", "orange", "lemon", "lime", "grape", "berry", "strawberry", "avocado",
+      "tomato", "potato", "onion", "garlic", "carrot", "lettuce", "salad", "spinach", "pepper",
+      "cucumber", "broccoli", "mushroom", "herb", "ginger", "celery", "courgette", "zucchini",
+    ],
+  },
+  {
+    id: "bakery",
+    label: "Bakery",
+    keywords: ["bread", "loaf", "bagel", "roll", "croissant", "bun", "wrap", "tortilla", "pitta", "muffin"],
+  },
+  {
+    id: "dairy",
+    label: "Dairy & Eggs",
+    keywords: ["milk", "cheese", "butter", "yogurt", "yoghurt", "cream", "egg", "margarine"],
+  },
+  {
+    id: "meat",
+    label: "Meat & Fish",
+    keywords: [
+      "chicken", "beef", "pork", "lamb", "mince", "sausage", "bacon", "ham", "turkey", "steak",
+      "fish", "salmon", "tuna", "prawn", "shrimp",
+    ],
+  },
+  {
+    id: "pantry",
+    label: "Pantry",
+    keywords: [
+      "rice", "pasta", "noodle", "oil", "olive oil", "vinegar", "salt", "black pepper", "spice", "cereal",
+      "oat", "bean", "lentil", "chickpea", "chopped tomato", "tinned tomato", "soup", "stock cube",
+      "sauce", "ketchup", "mayonnaise", "mustard", "jam", "honey", "peanut butter", "coffee",
+      "coffee bean", "tea", "cracker", "nut", "snack", "crisp", "chip",
+    ],
+  },
+  {
+    id: "baking",
+    label: "Baking",
+    keywords: [
+      "flour", "sugar", "yeast", "baking powder", "baking soda", "bicarbonate", "cocoa",
+      "chocolate chip", "vanilla", "icing", "cornflour",
+    ],
+  },
+  {
+    id: "frozen",
+    label: "Frozen",
+    keywords: ["frozen", "ice cream", "ice", "pea", "fish finger", "pizza"],
+  },
+  {
+    id: "drinks",
+    label: "Drinks",
+    keywords: ["water", "juice", "soda", "cola", "lemonade", "beer", "wine", "squash"],
+  },
+  {
+    id: "cleaning",
+    label: "Cleaning",
+    keywords: [
+      "bleach", "detergent", "washing up liquid", "dish soap", "dishwasher", "laundry", "fabric softener",
+      "sponge", "cleaner", "spray", "bin bag", "trash bag", "cloth", "wipe", "polish",
+    ],
+  },
+  {
+    id: "toiletries",
+    label: "Toiletries",
+    keywords: [
+      "toothpaste", "toothbrush", "shampoo", "conditioner", "soap", "shower gel", "deodorant",
+      "razor", "toilet paper", "toilet roll", "tissue", "floss", "mouthwash", "sunscreen",
+      "lotion", "cotton", "plaster",
+    ],
+  },
+  {
+    id: "household",
+    label: "Household",
+    keywords: ["battery", "light bulb", "bulb", "foil", "cling film", "baking paper", "candle", "match", "fuse", "tape"],
+  },
+  { id: "other", label: "Other", keywords: [] },
+];
+
+export const DEFAULT_CATEGORY = "other";
+
+const CATEGORY_BY_ID = new Map(CATEGORIES.map((category) => [category.id, category]));
+
+export const categoryLabel = (id: string) => CATEGORY_BY_ID.get(id)?.label ?? id;
+
+// Position in walking order, for sorting groups
+export const categoryOrder = (id: string) => {
+  const index = CATEGORIES.findIndex((category) => category.id === id);
+  return index === -1 ? CATEGORIES.length : index;
+};
+
+const words = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).map(stem);
+
+// Keyword phrases as stemmed word lists, longest first so "olive oil" beats "oil"
+const KEYWORDS = CATEGORIES.flatMap((category) =>
+  category.keywords.map((keyword) => ({ words: words(keyword), category: category.id }))
+).sort((a, b) => b.words.length - a.words.length);
+
+/**
+ * Best guess at a category for an item name. Multi-word keywords win over
+ * single words; among single words, the last one decides ("chicken soup" is
+ * soup, so pantry).
+ */
+export function guessCategory(name: string): string {
+  const nameWords = words(name);
+  let best: { category: string; length: number; position: number } | null = null;
+
+  for (const keyword of KEYWORDS) {
+    for (let i = 0; i + keyword.words.length <= nameWords.length; i++) {
+      if (!keyword.words.every((word, j) => nameWords[i + j] === word)) continue;
+      const candidate = { category: keyword.category, length: keyword.words.length, position: i };
+      if (
+        !best ||
+        candidate.length > best.length ||
+        (candidate.length === best.length && candidate.position > best.position)
+      ) {
+        best = candidate;
+      }
+    }
+  }
+  return best?.category ?? DEFAULT_CATEGORY;
+}
@@ -0,0 +1,71 @@
+/**
+ * Near-duplicate detection for voice-captured entries ("olive oil" vs
+ * "Olive Oil bottle").
+ *
+ * Text is normalised to a set of stemmed words without filler and packaging
+ * words, then compared with a typo-tolerant Dice coefficient. Entries whose
+ * similarity reaches the threshold end up in the same group, transitively.
+ */
+
+import { editDistance, stem } from "./fuzzySearch";
+
+// Entries at least this similar (0-1) are grouped together
+export const DUPLICATE_THRESHOLD = 0.75;
+
+// Words that don't tell two entries apart
+const FILLER_WORDS = new Set([
+  "a", "an", "the", "of", "my", "some", "and",
+  "bottle", "jar", "tin", "can", "pack", "packet", "bag", "box", "carton", "tub",
+]);
+
+export function normalizeWords(text: string): string[] {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).map(stem);
+  const meaningful = words.filter((word) => !FILLER_WORDS.has(word));
+  // Keep "the box" as something rather than nothing
+  return [...new Set(meaningful.length > 0 ? meaningful : words)];
+}
+
+// One typo allowed in words of 5+ letters
+const sameWord = (a: string, b: string) =>
+  a === b || (Math.min(a.length, b.length) >= 5 && editDistance(a, b, 1) <= 1);
+
+// Similarity of two normalised word sets, from 0 (nothing shared) to 1
+export function similarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  // "screw driver" and "screwdriver"
+  if (a.join("") === b.join("")) return 1;
+
+  const matched = a.filter((word) => b.some((other) => sameWord(word, other))).length;
+  return (2 * matched) / (a.length + b.length);
+}
+
+/**
+ * Groups of two or more similar records, largest first. Records keep their
+ * incoming order inside a group, so callers decide which comes first.
+ */
+export function findDuplicateGroups<T>(
+  records: T[],
+  getText: (record: T) => string,
+  threshold = DUPLICATE_THRESHOLD
+): T[][] {
+  const words = records.map((record) => normalizeWords(getText(record)));
+
+  // Union-find over record indexes
+  const parent = records.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < records.length; i++) {
+    for (let j = i + 1; j < records.length; j++) {
+      if (root(i) !== root(j) && similarity(words[i], words[j]) >= threshold) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  records.forEach((record, i) => {
+    const key = root(i);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1).sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,254 @@
+/**
+ * Client-side fuzzy search for short household records (item names,
+ * locations).
+ *
+ * Text is split into word tokens and each query word is matched against
+ * them, most to least exact: same word after plural stemming, a synonym, the
+ * start of a word (for search-as-you-type), or a near miss within a few
+ * typos. Adjacent words are also joined, so "screwdrivers" finds
+ * "screw driver set". Every query word has to match somewhere; records are
+ * ranked by how well they match, and the matched character ranges are
+ * returned for highlighting.
+ */
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchField<T> {
+  name: string;
+  // Matches in heavier fields rank higher (e.g. item name over location)
+  weight: number;
+  get: (record: T) => string;
+}
+
+export interface SearchResult<T> {
+  record: T;
+  score: number;
+  // Matched ranges in each field's text, by field name
+  highlights: Record<string, MatchRange[]>;
+}
+
+interface Term {
+  text: string;
+  start: number;
+  end: number;
+  // Two adjacent words run together; these only match whole words
+  joined?: boolean;
+}
+
+// Words that should find each other; compared after stemming
+const SYNONYM_GROUPS = [
+  ["sofa", "couch", "settee"],
+  ["cupboard", "cabinet", "closet", "wardrobe"],
+  ["fridge", "refrigerator"],
+  ["freezer", "deep freeze"],
+  ["torch", "flashlight"],
+  ["bin", "trash", "rubbish", "garbage"],
+  ["tv", "television", "telly"],
+  ["lounge", "living room", "sitting room"],
+  ["loo", "toilet", "bathroom", "washroom"],
+  ["shed", "outhouse"],
+  ["attic", "loft"],
+  ["cellar", "basement"],
+  ["box", "crate", "container", "tub"],
+  ["bag", "sack", "pouch"],
+  ["charger", "adapter", "power supply"],
+  ["cable", "cord", "lead", "wire"],
+  ["glasses", "spectacles", "specs"],
+  ["sneakers", "trainers"],
+  ["jumper", "sweater", "pullover"],
+  ["tap", "faucet"],
+  ["hoover", "vacuum"],
+];
+
+const MATCH_SCORES = {
+  exact: 1,
+  synonym: 0.9,
+  prefix: 0.75,
+  // Minus FUZZY_PENALTY per typo
+  fuzzy: 0.8,
+};
+const FUZZY_PENALTY = 0.15;
+// Bonus when the whole query appears as typed
+const PHRASE_BONUS = 0.25;
+
+// Plural -> singular, roughly: boxes -> box, batteries -> battery, keys -> key
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2);
+  // knives -> knife, shelves -> shelf, but gloves and olives keep their e
+  if (/knives$|^(wi|li)ves$/.test(word)) return `${word.slice(0, -3)}fe`;
+  if (/(shel|sel|hal|cal|wol|loa|lea|scar|thie|hoo)ves$/.test(word)) return `${word.slice(0, -3)}f`;
+  // tomatoes -> tomato, but shoes -> shoe
+  if (/[^aeiou]oes$/.test(word) && !/^(shoes|toes|hoes|canoes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// Lowercased word tokens with their positions in the original text
+function tokenize(text: string): Term[] {
+  const terms: Term[] = [];
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0;
+    terms.push({ text: match[0], start, end: start + match[0].length });
+  }
+  return terms;
+}
+
+// Single words plus adjacent pairs joined up ("screw driver" -> "screwdriver")
+function searchTerms(text: string): Term[] {
+  const words = tokenize(text);
+  const pairs = words.slice(1).map((word, i) => ({
+    text: words[i].text + word.text,
+    start: words[i].start,
+    end: word.end,
+    joined: true,
+  }));
+  return [...words, ...pairs].map((term) => ({ ...term, text: stem(term.text) }));
+}
+
+const synonymGroups = new Map<string, number>();
+SYNONYM_GROUPS.forEach((group, i) =>
+  group.forEach((word) => synonymGroups.set(stem(word.replace(/\s+/g, "")), i))
+);
+
+// Stemmed query words, with two-word synonyms ("living room") kept together
+function queryWords(query: string): string[] {
+  const words = tokenize(query).map((term) => term.text);
+  const result: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const joined = i + 1 < words.length ? stem(words[i] + words[i + 1]) : null;
+    if (joined && synonymGroups.has(joined)) {
+      result.push(joined);
+      i++;
+    } else {
+      result.push(stem(words[i]));
+    }
+  }
+  return result;
+}
+
+// Typos allowed for a word of this length
+const typoLimit = (length: number) => (length <= 3 ? 0 : length <= 7 ? 1 : 2);
+
+/**
+ * Edit distance counting swapped neighbours as one edit ("drwaer" -> "drawer"),
+ * or Infinity once it is known to exceed `limit`.
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return Infinity;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return Infinity;
+    beforePrevious = previous;
+    previous = current;
+  }
+  const distance = previous[b.length];
+  return distance > limit ? Infinity : distance;
+}
+
+// How well one (stemmed) query word matches one term, 0 for not at all
+function termScore(word: string, { text, joined }: Term): number {
+  if (word === text) return MATCH_SCORES.exact;
+
+  const group = synonymGroups.get(word);
+  if (group !== undefined && synonymGroups.get(text) === group) return MATCH_SCORES.synonym;
+
+  if (joined) return 0;
+  if (word.length >= 2 && text.startsWith(word)) return MATCH_SCORES.prefix;
+
+  const distance = editDistance(word, text, typoLimit(word.length));
+  return distance === Infinity ? 0 : MATCH_SCORES.fuzzy - distance * FUZZY_PENALTY;
+}
+
+/**
+ * Rank `records` against `query`. An empty query returns every record, in
+ * order, with a score of 0.
+ */
+export function fuzzySearch<T>(
+  records: T[],
+  query: string,
+  fields: SearchField<T>[]
+): SearchResult<T>[] {
+  const words = queryWords(query);
+  if (words.length === 0) {
+    return records.map((record) => ({ record, score: 0, highlights: {} }));
+  }
+  const phrase = query.trim().toLowerCase();
+
+  const results: SearchResult<T>[] = [];
+  records.forEach((record) => {
+    const texts = fields.map((field) => field.get(record));
+    const terms = texts.map(searchTerms);
+    const highlights: Record<string, MatchRange[]> = {};
+    let score = 0;
+
+    const allMatched = words.every((word) => {
+      let best = 0;
+      fields.forEach((field, f) => {
+        terms[f].forEach((term) => {
+          const match = termScore(word, term);
+          if (match === 0) return;
+          best = Math.max(best, match * field.weight);
+          (highlights[field.name] ??= []).push({ start: term.start, end: term.end });
+        });
+      });
+      score += best;
+      return best > 0;
+    });
+    if (!allMatched) return;
+
+    score /= words.length;
+    fields.forEach((field, f) => {
+      if (texts[f].toLowerCase().includes(phrase)) score += PHRASE_BONUS * field.weight;
+    });
+    results.push({ record, score, highlights });
+  });
+
+  // Stable sort keeps the incoming order for equal scores
+  return results.sort((a, b) => b.score - a.score);
+}
+
+// Split text into plain and highlighted parts, merging overlapping ranges
+export function highlightParts(
+  text: string,
+  ranges: MatchRange[] = []
+): { text: string; highlighted: boolean }[] {
+  const merged: MatchRange[] = [];
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .forEach((range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    });
+
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+  merged.forEach(({ start, end }) => {
+    if (start > position) parts.push({ text: text.slice(position, start), highlighted: false });
+    parts.push({ text: text.slice(start, end), highlighted: true });
+    position = end;
+  });
+  if (position < text.length) parts.push({ text: text.slice(position), highlighted: false });
+  return parts;
+}
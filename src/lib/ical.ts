@@ -0,0 +1,189 @@
+/**
+ * iCalendar (RFC 5545) rendering of the to-do list.
+ *
+ * Every todo becomes a VTODO; pending todos with a due date also get a VEVENT
+ * so they show up in calendar apps that ignore VTODOs. Times are "floating"
+ * (no timezone), which calendar apps show in the device's local time - the
+ * same way the app treats due dates.
+ */
+
+import { describeRecurrence, type TodoRecurrence } from "./recurrence";
+
+// The fields of a chat server todo that the feed uses
+export interface CalendarTodo {
+  id: string;
+  content: string;
+  completed: boolean;
+  created_at: string;
+  completed_at: string | null;
+  due_date?: string | null;
+  due_time?: string | null;
+  priority?: "low" | "normal" | "high";
+  notes?: string | null;
+  recurrence?: TodoRecurrence | null;
+  checklist?: { content: string; completed: boolean }[];
+  list?: string | null;
+}
+
+const PRODUCT_ID = "-//voice-ai//todos//EN";
+const UID_DOMAIN = "voice-ai.local";
+// Length of the calendar event for a todo with a due time
+const TIMED_EVENT_DURATION = "PT30M";
+
+// RFC 5545 priorities: 1 is highest, 9 lowest
+const PRIORITY_VALUES = { high: 1, normal: 5, low: 9 };
+
+const BYDAY = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Escape TEXT values (backslash, separators and newlines)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Fold content lines longer than 75 octets, without splitting a character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// 2026-10-19T08:30:00.000Z -> 20261019T083000Z
+const utcStamp = (timestamp: string | Date) =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// 2026-10-19 -> 20261019
+const dateValue = (date: string) => date.replace(/-/g, "");
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+// DUE/DTSTART property: a floating date-time with a due time, otherwise a date
+const dateProperty = (name: string, date: string, time: string | null | undefined) =>
+  time
+    ? `${name}:${dateValue(date)}T${time.replace(":", "")}00`
+    : `${name};VALUE=DATE:${dateValue(date)}`;
+
+/**
+ * RRULE for a recurrence rule. "N days after completion" depends on when the
+ * item is done, which iCalendar can't express, so it has none.
+ */
+export function toRRule(recurrence: TodoRecurrence): string | null {
+  switch (recurrence.type) {
+    case "daily":
+      return "FREQ=DAILY";
+    case "weekly":
+      return recurrence.days.length > 0
+        ? `FREQ=WEEKLY;BYDAY=${recurrence.days.map((d) => BYDAY[d]).join(",")}`
+        : "FREQ=WEEKLY";
+    case "interval": {
+      const freq = recurrence.unit === "week" ? "WEEKLY" : "MONTHLY";
+      return recurrence.every > 1 ? `FREQ=${freq};INTERVAL=${recurrence.every}` : `FREQ=${freq}`;
+    }
+    case "after_completion":
+      return null;
+  }
+}
+
+function describe(todo: CalendarTodo): string | null {
+  const lines: string[] = [];
+  if (todo.notes) lines.push(todo.notes);
+  if (todo.checklist && todo.checklist.length > 0) {
+    if (lines.length > 0) lines.push("");
+    todo.checklist.forEach((item) => lines.push(`[${item.completed ? "x" : " "}] ${item.content}`));
+  }
+  if (todo.recurrence && !toRRule(todo.recurrence)) {
+    if (lines.length > 0) lines.push("");
+    lines.push(`Repeats ${describeRecurrence(todo.recurrence)}`);
+  }
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+// Repeats are anchored on the due date, so there's no RRULE without one
+const rruleOf = (todo: CalendarTodo) => (todo.due_date && todo.recurrence ? toRRule(todo.recurrence) : null);
+
+// Properties shared by the VTODO and VEVENT of a todo
+function commonProperties(todo: CalendarTodo, stamp: string): string[] {
+  const description = describe(todo);
+  const rrule = rruleOf(todo);
+
+  return [
+    `DTSTAMP:${stamp}`,
+    `CREATED:${utcStamp(todo.created_at)}`,
+    `SUMMARY:${escapeText(todo.content)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(todo.list ? [`CATEGORIES:${escapeText(todo.list)}`] : []),
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+  ];
+}
+
+function renderTodo(todo: CalendarTodo, stamp: string): string[] {
+  return [
+    "BEGIN:VTODO",
+    `UID:todo-${todo.id}@${UID_DOMAIN}`,
+    ...commonProperties(todo, stamp),
+    // An RRULE needs a DTSTART to expand from
+    ...(todo.due_date && rruleOf(todo) ? [dateProperty("DTSTART", todo.due_date, todo.due_time)] : []),
+    ...(todo.due_date ? [dateProperty("DUE", todo.due_date, todo.due_time)] : []),
+    `PRIORITY:${PRIORITY_VALUES[todo.priority ?? "normal"]}`,
+    `STATUS:${todo.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+    ...(todo.completed && todo.completed_at ? [`COMPLETED:${utcStamp(todo.completed_at)}`] : []),
+    "END:VTODO",
+  ];
+}
+
+function renderEvent(todo: CalendarTodo & { due_date: string }, stamp: string): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:event-${todo.id}@${UID_DOMAIN}`,
+    ...commonProperties(todo, stamp),
+    dateProperty("DTSTART", todo.due_date, todo.due_time),
+    todo.due_time ? `DURATION:${TIMED_EVENT_DURATION}` : `DTEND;VALUE=DATE:${dateValue(nextDay(todo.due_date))}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+// Render todos as a VCALENDAR document (CRLF line endings, folded lines)
+export function renderCalendar(todos: CalendarTodo[], name: string): string {
+  const stamp = utcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const todo of todos) {
+    lines.push(...renderTodo(todo, stamp));
+    if (todo.due_date && !todo.completed) {
+      lines.push(...renderEvent({ ...todo, due_date: todo.due_date }, stamp));
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
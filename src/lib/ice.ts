@@ -0,0 +1,85 @@
+/**
+ * ICE server configuration for SmallWebRTC sessions.
+ *
+ * Everything here is read from server-side env at request time and handed to
+ * the browser in the /api/start response, so no credentials end up in the
+ * client bundle.
+ *
+ * - ICE_SERVERS: JSON array of RTCIceServer objects (e.g. public STUN)
+ * - TURN_URLS: comma-separated turn:/turns: URLs of our coturn instance
+ * - TURN_SHARED_SECRET: coturn's static-auth-secret (use-auth-secret mode)
+ * - TURN_CREDENTIAL_TTL_SECONDS: lifetime of generated credentials (default 1h)
+ */
+
+import { createHmac } from "crypto";
+
+const DEFAULT_TURN_TTL_SECONDS = 60 * 60;
+
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+function parseStaticIceServers(): IceServer[] {
+  if (!process.env.ICE_SERVERS) return [];
+
+  try {
+    const parsed = JSON.parse(process.env.ICE_SERVERS);
+    if (!Array.isArray(parsed)) {
+      console.warn("[ice] ICE_SERVERS must be a JSON array, ignoring it");
+      return [];
+    }
+    return parsed.filter((server): server is IceServer => {
+      const valid =
+        server &&
+        (typeof server.urls === "string" ||
+          (Array.isArray(server.urls) && server.urls.every((u: unknown) => typeof u === "string")));
+      if (!valid) console.warn("[ice] Skipping ICE_SERVERS entry without urls");
+      return valid;
+    });
+  } catch {
+    console.warn("[ice] ICE_SERVERS is not valid JSON, ignoring it");
+    return [];
+  }
+}
+
+// TURN REST API scheme: username is "<expiry unix seconds>:<user>" and the
+// password is base64(HMAC-SHA1(shared secret, username)). coturn recomputes
+// the HMAC, so credentials expire on their own and nothing is stored.
+export function createTurnCredentials(
+  secret: string,
+  user: string,
+  ttlSeconds: number,
+  now: number = Date.now()
+): { username: string; credential: string } {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${user}`;
+  const credential = createHmac("sha1", secret).update(username).digest("base64");
+  return { username, credential };
+}
+
+function buildTurnServer(user: string): IceServer | null {
+  const urls = (process.env.TURN_URLS || "")
+    .split(",")
+    .map((u) => u.trim())
+    .filter(Boolean);
+  if (urls.length === 0) return null;
+
+  const secret = process.env.TURN_SHARED_SECRET;
+  if (!secret) {
+    console.warn("[ice] TURN_URLS is set without TURN_SHARED_SECRET, skipping TURN");
+    return null;
+  }
+
+  const ttl = Number(process.env.TURN_CREDENTIAL_TTL_SECONDS) || DEFAULT_TURN_TTL_SECONDS;
+  return { urls, ...createTurnCredentials(secret, user, ttl) };
+}
+
+// ICE servers for one session; empty when nothing is configured
+export function getIceServers(user: string | null): IceServer[] {
+  const servers = parseStaticIceServers();
+  const turn = buildTurnServer(user || "anonymous");
+  if (turn) servers.push(turn);
+  return servers;
+}
@@ -0,0 +1,151 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+const HISTORY_FILE =
+  process.env.LOCATION_HISTORY_FILE || path.join(process.cwd(), "data", "location-history.json");
+
+// Oldest changes are dropped past this many per memory
+const MAX_ENTRIES = 50;
+
+// How long after a change the web app can still say who made it
+const CLAIM_WINDOW_MS = 60000;
+
+// Changes nobody claims were made through the chat server, i.e. by voice
+const UNCLAIMED = "voice";
+
+// One entry in a memory's location timeline (oldest first)
+export interface LocationChange {
+  location: string;
+  changed_at: string;
+  // Null for where an item already was when its timeline started
+  changed_by: string | null;
+}
+
+type HistoryTable = Record<string, LocationChange[]>;
+
+interface HistoryStore {
+  table: HistoryTable | null;
+  // Changes are applied one at a time so concurrent writes can't lose entries
+  queue: Promise<unknown>;
+}
+
+// Keep one store per server process: the SSE hub (started from
+// instrumentation) and the route handlers are bundled separately
+const globalForHistory = globalThis as typeof globalThis & { locationHistory?: HistoryStore };
+const store = globalForHistory.locationHistory ?? (globalForHistory.locationHistory = { table: null, queue: Promise.resolve() });
+
+async function loadTable(): Promise<HistoryTable> {
+  if (store.table) return store.table;
+  try {
+    const data = JSON.parse(await fs.readFile(HISTORY_FILE, "utf-8"));
+    store.table = data && typeof data.memories === "object" ? data.memories : {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Failed to load location history file:", error);
+    }
+    store.table = {};
+  }
+  return store.table as HistoryTable;
+}
+
+async function saveTable(memories: HistoryTable): Promise<void> {
+  await fs.mkdir(path.dirname(HISTORY_FILE), { recursive: true });
+  // Write to a temp file first so a crash can't leave a truncated store
+  const tempFile = `${HISTORY_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify({ memories }, null, 2));
+  await fs.rename(tempFile, HISTORY_FILE);
+}
+
+// Run `change` against the table and save it if it reports a change
+function update(change: (memories: HistoryTable) => boolean | Promise<boolean>): Promise<void> {
+  const run = store.queue.then(async () => {
+    const memories = await loadTable();
+    if (await change(memories)) await saveTable(memories);
+  });
+  store.queue = run.catch((error) => console.error("Failed to save location history:", error));
+  return run;
+}
+
+function append(memories: HistoryTable, memoryId: string, entry: LocationChange) {
+  memories[memoryId] = [...(memories[memoryId] ?? []), entry].slice(-MAX_ENTRIES);
+}
+
+const idOf = (memory: Record<string, unknown>) =>
+  typeof memory.id === "string" || typeof memory.id === "number" ? String(memory.id) : null;
+
+export async function getLocationHistory(memoryId: string): Promise<LocationChange[]> {
+  await store.queue;
+  return (await loadTable())[memoryId] ?? [];
+}
+
+/**
+ * Bring every timeline up to where its memory is now: one that has none
+ * starts here, so the first move doesn't lose the old location, and a move
+ * made while the hub wasn't listening is added without an author. Called with
+ * the chat server's memories each time the hub connects; it's queued ahead of
+ * the events that follow, so it waits for the list to arrive.
+ */
+export function recordMemorySnapshot(list: Promise<Record<string, unknown>[]>): Promise<void> {
+  return update(async (memories) => {
+    let changed = false;
+    for (const memory of await list) {
+      const memoryId = idOf(memory);
+      if (!memoryId || typeof memory.location !== "string") continue;
+      if (memories[memoryId]?.at(-1)?.location === memory.location) continue;
+      const since = [memory.updated_at, memory.timestamp].find((value): value is string => typeof value === "string");
+      append(memories, memoryId, {
+        location: memory.location,
+        changed_at: since ?? new Date().toISOString(),
+        changed_by: null,
+      });
+      changed = true;
+    }
+    return changed;
+  });
+}
+
+/**
+ * Record a memory event seen on the chat server's event stream. A new
+ * location is added to the timeline as a voice change until the web app
+ * claims it; events that don't move the item are ignored.
+ */
+export function recordMemoryEvent(type: string, data: Record<string, unknown>): Promise<void> {
+  const memoryId = idOf(data);
+  if (!memoryId) return Promise.resolve();
+
+  if (type === "memory_deleted") {
+    return update((memories) => {
+      if (!(memoryId in memories)) return false;
+      delete memories[memoryId];
+      return true;
+    });
+  }
+
+  const location = typeof data.location === "string" ? data.location : null;
+  if ((type !== "memory_created" && type !== "memory_updated") || !location) return Promise.resolve();
+
+  return update((memories) => {
+    if (memories[memoryId]?.at(-1)?.location === location) return false;
+    append(memories, memoryId, { location, changed_at: new Date().toISOString(), changed_by: UNCLAIMED });
+    return true;
+  });
+}
+
+/**
+ * Attribute a location change to the user who made it through the web
+ * app. Takes over the matching voice entry if the event got here first,
+ * otherwise adds the entry (and the event is then ignored as a repeat).
+ */
+export function claimLocationChange(memoryId: string, location: string, changedBy: string): Promise<void> {
+  return update((memories) => {
+    const last = memories[memoryId]?.at(-1);
+    if (last?.location === location) {
+      const isRecent = Date.now() - new Date(last.changed_at).getTime() < CLAIM_WINDOW_MS;
+      if (last.changed_by !== UNCLAIMED || !isRecent) return false;
+      last.changed_by = changedBy;
+      return true;
+    }
+    append(memories, memoryId, { location, changed_at: new Date().toISOString(), changed_by: changedBy });
+    return true;
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Location hierarchy for memories.
+ *
+ * A location is still a plain string on the server, written as a path from
+ * the outermost place inwards: "Garage / Shelf 2 / Blue box" (room ->
+ * furniture -> container). "/" and ">" both separate levels. Paths compare
+ * case-insensitively, and new paths reuse the spelling of known ones.
+ */
+
+export const LOCATION_SEPARATOR = " / ";
+
+// Where the tree puts locations that have no levels at all (empty strings)
+const UNKNOWN_LOCATION = "(unknown)";
+
+export interface LocationNode {
+  name: string;
+  path: string[];
+  children: LocationNode[];
+  // Memories filed exactly here (not in children)
+  items: string[];
+  // Memories here and in every child
+  totalCount: number;
+}
+
+export function parseLocation(location: string): string[] {
+  return location
+    .split(/[/>]/)
+    .map((segment) => segment.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+}
+
+export const formatLocation = (path: string[]) => path.join(LOCATION_SEPARATOR);
+
+export const locationKey = (path: string[]) => path.map((s) => s.toLowerCase()).join("/");
+
+// Whether `path` is `ancestor` or somewhere inside it
+export const isWithin = (path: string[], ancestor: string[]) =>
+  ancestor.length <= path.length &&
+  locationKey(path.slice(0, ancestor.length)) === locationKey(ancestor);
+
+/**
+ * Tidy a typed location: normalise separators and whitespace, and adopt the
+ * existing spelling of each level that is already known, so "garage/shelf 2"
+ * files under "Garage / Shelf 2".
+ */
+export function canonicalLocation(location: string, knownLocations: string[]): string {
+  const path = parseLocation(location);
+  const spellings = new Map<string, string>();
+  knownLocations.forEach((known) => {
+    const knownPath = parseLocation(known);
+    knownPath.forEach((segment, i) => {
+      const key = locationKey(knownPath.slice(0, i + 1));
+      if (!spellings.has(key)) spellings.set(key, segment);
+    });
+  });
+
+  return formatLocation(
+    path.map((segment, i) => spellings.get(locationKey([...path.slice(0, i), segment])) ?? segment)
+  );
+}
+
+// Every distinct location and each of its ancestors, formatted and sorted
+export function allLocationPaths(locations: string[]): string[] {
+  const paths = new Map<string, string>();
+  locations.forEach((location) => {
+    const path = parseLocation(location);
+    path.forEach((_, i) => {
+      const prefix = path.slice(0, i + 1);
+      const key = locationKey(prefix);
+      if (!paths.has(key)) paths.set(key, formatLocation(prefix));
+    });
+  });
+  return [...paths.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Build the location tree from (id, location) pairs. Levels that differ only
+ * in case share a node, named after the first spelling seen.
+ */
+export function buildLocationTree(entries: { id: string; location: string }[]): LocationNode {
+  const root: LocationNode = { name: "", path: [], children: [], items: [], totalCount: 0 };
+  const nodes = new Map<string, LocationNode>([["", root]]);
+
+  entries.forEach(({ id, location }) => {
+    const path = parseLocation(location);
+    if (path.length === 0) path.push(UNKNOWN_LOCATION);
+
+    let node = root;
+    node.totalCount += 1;
+    path.forEach((segment, i) => {
+      const key = locationKey(path.slice(0, i + 1));
+      let child = nodes.get(key);
+      if (!child) {
+        child = { name: segment, path: [...node.path, segment], children: [], items: [], totalCount: 0 };
+        nodes.set(key, child);
+        node.children.push(child);
+      }
+      child.totalCount += 1;
+      node = child;
+    });
+    node.items.push(id);
+  });
+
+  const sortChildren = (node: LocationNode) => {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.children.forEach(sortChildren);
+  };
+  sortChildren(root);
+  return root;
+}
+
+// The node at `path`, or null if nothing is filed there any more
+export function findLocationNode(root: LocationNode, path: string[]): LocationNode | null {
+  let node: LocationNode | undefined = root;
+  for (let i = 0; i < path.length && node; i++) {
+    const key = locationKey(path.slice(0, i + 1));
+    node = node.children.find((child) => locationKey(child.path) === key);
+  }
+  return node ?? null;
+}
+
+/**
+ * New location for something filed under `from` when everything there moves
+ * to `to`: "Garage / Shelf 2 / Blue box" moved from "Garage / Shelf 2" to
+ * "Shed" becomes "Shed / Blue box".
+ */
+export function relocate(location: string, from: string[], to: string[]): string {
+  const path = parseLocation(location);
+  if (!isWithin(path, from)) return location;
+  return formatLocation([...to, ...path.slice(from.length)]);
+}
@@ -0,0 +1,252 @@
+import { NextRequest, NextResponse } from "next/server";
+import { USER_HEADER } from "./session";
+
+const API_BASE = process.env.CHAT_API_URL || "http://localhost:8765";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface ProxyRoute {
+  // Path under /api and on the chat server; ":name" segments are parameters
+  path: string;
+  // Methods that are forwarded; anything else gets 405
+  methods: HttpMethod[];
+  // Query parameter carrying the item key for PUT/PATCH/DELETE
+  // (e.g. /api/memories?id=42 -> /memories/42)
+  idParam?: string;
+  // Query parameters added when the client doesn't send them
+  defaultQuery?: Record<string, string>;
+}
+
+/**
+ * Chat server resources proxied through /api/[...path].
+ * Adding a backend resource only needs a new line here.
+ */
+export const PROXY_ROUTES: ProxyRoute[] = [
+  { path: "memories", methods: ["GET", "POST", "PUT", "DELETE"], idParam: "id" },
+  { path: "stock", methods: ["GET", "POST", "PUT", "DELETE"], idParam: "id" },
+  { path: "freezer", methods: ["GET", "POST", "PATCH", "DELETE"], idParam: "code" },
+  { path: "todos", methods: ["GET", "POST"], defaultQuery: { include_completed: "true" } },
+  { path: "todos/:id", methods: ["PATCH", "DELETE"] },
+  { path: "todo-lists", methods: ["GET", "POST"] },
+  { path: "todo-lists/default", methods: ["POST"] },
+  { path: "todo-lists/:name", methods: ["DELETE"] },
+  { path: "clients", methods: ["GET"] },
+  { path: "clients/select", methods: ["POST"] },
+  { path: "gating/modes", methods: ["GET"] },
+  { path: "gating/mode", methods: ["POST"] },
+  { path: "gating/start", methods: ["POST"] },
+  { path: "gating/stop", methods: ["POST"] },
+  { path: "version", methods: ["GET"] },
+  { path: "version/current", methods: ["GET"] },
+  { path: "version/history", methods: ["GET"] },
+];
+
+// Request headers passed on to the chat server
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "accept-language",
+  "content-type",
+  "if-match",
+  "if-none-match",
+];
+
+// Response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = [
+  "cache-control",
+  "content-type",
+  "etag",
+  "last-modified",
+  "location",
+];
+
+const ITEM_METHODS: HttpMethod[] = ["PUT", "PATCH", "DELETE"];
+
+interface RouteMatch {
+  route: ProxyRoute;
+  params: Record<string, string>;
+}
+
+function matchRoute(segments: string[]): RouteMatch | null {
+  for (const route of PROXY_ROUTES) {
+    const routeSegments = route.path.split("/");
+    if (routeSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = routeSegments.every((routeSegment, i) => {
+      if (routeSegment.startsWith(":")) {
+        params[routeSegment.slice(1)] = segments[i];
+        return true;
+      }
+      return routeSegment === segments[i];
+    });
+
+    if (matches) return { route, params };
+  }
+  return null;
+}
+
+// Build the chat server URL for a matched route, or an error message
+function buildUpstreamUrl(
+  { route, params }: RouteMatch,
+  method: HttpMethod,
+  searchParams: URLSearchParams
+): { url: string } | { error: string } {
+  const query = new URLSearchParams(searchParams);
+  let path = route.path
+    .split("/")
+    .map((segment) =>
+      segment.startsWith(":") ? encodeURIComponent(params[segment.slice(1)]) : segment
+    )
+    .join("/");
+
+  if (route.idParam && ITEM_METHODS.includes(method)) {
+    const id = query.get(route.idParam);
+    if (!id) {
+      return { error: `Missing ${route.idParam} parameter` };
+    }
+    query.delete(route.idParam);
+    path = `${path}/${encodeURIComponent(id)}`;
+  }
+
+  Object.entries(route.defaultQuery ?? {}).forEach(([key, value]) => {
+    if (!query.has(key)) query.set(key, value);
+  });
+
+  const queryString = query.toString();
+  return { url: `${API_BASE}/${path}${queryString ? `?${queryString}` : ""}` };
+}
+
+// Pass upstream errors through, making sure the body always has an "error" field
+async function errorResponse(response: Response, fallback: string): Promise<NextResponse> {
+  const text = await response.text();
+  let body: Record<string, unknown> = {};
+
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      body = parsed;
+    }
+  } catch {
+    // Non-JSON error body (e.g. an HTML error page)
+  }
+
+  if (typeof body.error !== "string") {
+    body.error = typeof body.detail === "string" ? body.detail : text.trim() || fallback;
+  }
+
+  return NextResponse.json(body, { status: response.status });
+}
+
+/**
+ * Call a PROXY_ROUTES resource from a route handler, on behalf of `user`
+ * (GET unless `method` says otherwise; `body` is sent as JSON). Uses the same
+ * upstream URL (and default query) as the browser would get through /api/<path>.
+ */
+export async function fetchProxiedResource(
+  path: string,
+  searchParams: URLSearchParams,
+  user: string,
+  { method = "GET", body }: { method?: HttpMethod; body?: unknown } = {}
+): Promise<Response> {
+  const match = matchRoute(path.split("/"));
+  if (!match || !match.route.methods.includes(method)) {
+    throw new Error(`/${path} is not a proxied ${method} route`);
+  }
+
+  const target = buildUpstreamUrl(match, method, searchParams);
+  if ("error" in target) {
+    throw new Error(target.error);
+  }
+
+  return fetch(target.url, {
+    method,
+    headers: {
+      accept: "application/json",
+      [USER_HEADER]: user,
+      ...(body !== undefined ? { "content-type": "application/json" } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    cache: "no-store",
+  });
+}
+
+/**
+ * Forward a request for /api/<segments> to the chat server according to
+ * PROXY_ROUTES. Status codes, bodies and the allowlisted headers are passed
+ * through unchanged in both directions; the logged-in user is sent along in
+ * the x-voice-ai-user header.
+ */
+export async function proxyRequest(
+  request: NextRequest,
+  segments: string[]
+): Promise<NextResponse> {
+  const method = request.method.toUpperCase() as HttpMethod;
+  const match = matchRoute(segments);
+
+  if (!match) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  if (!match.route.methods.includes(method)) {
+    return NextResponse.json(
+      { error: `Method ${method} not allowed` },
+      { status: 405, headers: { Allow: match.route.methods.join(", ") } }
+    );
+  }
+
+  const target = buildUpstreamUrl(match, method, request.nextUrl.searchParams);
+  if ("error" in target) {
+    return NextResponse.json({ error: target.error }, { status: 400 });
+  }
+
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  // Attribute the request to the logged-in user (set by the auth middleware)
+  const user = request.headers.get(USER_HEADER);
+  if (user) {
+    headers.set(USER_HEADER, user);
+  }
+
+  const body = method === "GET" ? undefined : await request.text();
+  if (body && !headers.has("content-type")) {
+    headers.set("content-type", "application/json");
+  }
+
+  try {
+    const response = await fetch(target.url, {
+      method,
+      headers,
+      body: body || undefined,
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      return errorResponse(response, `Failed to ${method} /${match.route.path}`);
+    }
+
+    const responseHeaders = new Headers();
+    FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+      const value = response.headers.get(name);
+      if (value) responseHeaders.set(name, value);
+    });
+
+    // 204/304 responses must not carry a body
+    const responseBody =
+      response.status === 204 || response.status === 304 ? null : await response.arrayBuffer();
+
+    return new NextResponse(responseBody, {
+      status: response.status,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error(`Proxy ${method} /${segments.join("/")} error:`, error);
+    return NextResponse.json(
+      { error: "Failed to connect to server" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Structured stock quantities.
+ *
+ * Quantities are stored on the server as free text ("2 cans", "1.5 kg").
+ * Text that reads as a number and a known unit is parsed so it can be shown
+ * consistently and stepped up and down; anything else is left as typed.
+ */
+
+export interface ParsedQuantity {
+  amount: number;
+  // Canonical unit name (see UNITS), or null for a bare count ("12")
+  unit: string | null;
+}
+
+interface UnitInfo {
+  // Alternative spellings, lowercase
+  aliases: string[];
+  // Plural for countable units; measures ("kg") don't change
+  plural?: string;
+  // Amount the +/- controls add or remove
+  step: number;
+}
+
+const UNITS: Record<string, UnitInfo> = {
+  can: { aliases: ["cans"], plural: "cans", step: 1 },
+  tin: { aliases: ["tins"], plural: "tins", step: 1 },
+  pack: { aliases: ["packs", "pk", "pks"], plural: "packs", step: 1 },
+  packet: { aliases: ["packets"], plural: "packets", step: 1 },
+  bottle: { aliases: ["bottles", "btl"], plural: "bottles", step: 1 },
+  jar: { aliases: ["jars"], plural: "jars", step: 1 },
+  box: { aliases: ["boxes"], plural: "boxes", step: 1 },
+  bag: { aliases: ["bags"], plural: "bags", step: 1 },
+  carton: { aliases: ["cartons"], plural: "cartons", step: 1 },
+  roll: { aliases: ["rolls"], plural: "rolls", step: 1 },
+  loaf: { aliases: ["loaves"], plural: "loaves", step: 1 },
+  bar: { aliases: ["bars"], plural: "bars", step: 1 },
+  gallon: { aliases: ["gallons", "gal"], plural: "gallons", step: 0.5 },
+  kg: { aliases: ["kgs", "kilo", "kilos", "kilogram", "kilograms"], step: 0.5 },
+  g: { aliases: ["gr", "gram", "grams"], step: 100 },
+  l: { aliases: ["ltr", "litre", "litres", "liter", "liters"], step: 0.5 },
+  ml: { aliases: ["millilitre", "millilitres", "milliliter", "milliliters"], step: 100 },
+  lb: { aliases: ["lbs", "pound", "pounds"], step: 0.5 },
+  oz: { aliases: ["ounce", "ounces"], step: 1 },
+};
+
+const UNIT_BY_NAME = new Map<string, string>();
+Object.entries(UNITS).forEach(([unit, { aliases }]) => {
+  UNIT_BY_NAME.set(unit, unit);
+  aliases.forEach((alias) => UNIT_BY_NAME.set(alias, unit));
+});
+
+const WORD_AMOUNTS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  half: 0.5, "½": 0.5, "¼": 0.25, "¾": 0.75,
+};
+
+function parseAmount(text: string): number | null {
+  if (text in WORD_AMOUNTS) return WORD_AMOUNTS[text];
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) > 0 ? Number(fraction[1]) / Number(fraction[2]) : null;
+  return /^\d+(\.\d+)?$/.test(text) ? Number(text) : null;
+}
+
+// "2 cans", "1.5kg", "half a bottle" -> number and unit; null if it doesn't read that way
+export function parseQuantity(text: string): ParsedQuantity | null {
+  const normalized = text.trim().toLowerCase().replace(/(\d),(\d)/g, "$1.$2");
+  const match = normalized.match(/^([\d./]+|[a-z½¼¾]+)\s*(?:a\s+|an\s+)?([a-z]*)\.?$/);
+  if (!match) return null;
+
+  const amount = parseAmount(match[1]);
+  if (amount === null) return null;
+  if (!match[2]) return { amount, unit: null };
+
+  const unit = UNIT_BY_NAME.get(match[2]);
+  return unit ? { amount, unit } : null;
+}
+
+// Up to two decimals, without trailing zeros
+const formatAmount = (amount: number) => String(Math.round(amount * 100) / 100);
+
+export function formatQuantity({ amount, unit }: ParsedQuantity): string {
+  if (!unit) return formatAmount(amount);
+  const { plural } = UNITS[unit];
+  return `${formatAmount(amount)} ${plural && amount !== 1 ? plural : unit}`;
+}
+
+// How a stored quantity is shown: tidied if it parses, otherwise as typed
+export const displayQuantity = (text: string) => {
+  const parsed = parseQuantity(text);
+  return parsed ? formatQuantity(parsed) : text;
+};
+
+// One +/- step for the unit, never below zero
+export function stepQuantity(quantity: ParsedQuantity, direction: 1 | -1): ParsedQuantity {
+  const step = quantity.unit ? UNITS[quantity.unit].step : 1;
+  const amount = Math.max(0, Math.round((quantity.amount + direction * step) * 100) / 100);
+  return { ...quantity, amount };
+}
+
+export interface StockThresholds {
+  // At or below this amount the item is running low
+  low_threshold?: number | null;
+  // At or below this amount it counts as out (0 if only "low" is set)
+  out_threshold?: number | null;
+}
+
+/**
+ * Stock level implied by a quantity and its thresholds (in the quantity's
+ * unit), or null when there are no thresholds or the quantity doesn't parse.
+ */
+export function deriveStockLevel(
+  quantity: string,
+  { low_threshold, out_threshold }: StockThresholds
+): "out_of_stock" | "running_low" | "sufficient" | null {
+  if (low_threshold == null && out_threshold == null) return null;
+  const parsed = parseQuantity(quantity);
+  if (!parsed) return null;
+
+  if (parsed.amount <= (out_threshold ?? 0)) return "out_of_stock";
+  if (low_threshold != null && parsed.amount <= low_threshold) return "running_low";
+  return "sufficient";
+}
+
+/**
+ * The quantity after restocking: raised, in whole steps of its unit, to the
+ * first amount the thresholds count as sufficient. Null if it doesn't parse.
+ */
+export function restockedQuantity(quantity: string, { low_threshold, out_threshold }: StockThresholds): string | null {
+  const parsed = parseQuantity(quantity);
+  if (!parsed) return null;
+
+  const step = parsed.unit ? UNITS[parsed.unit].step : 1;
+  const limit = Math.max(low_threshold ?? 0, out_threshold ?? 0);
+  const amount = Math.max(parsed.amount, Math.round((Math.floor(limit / step) + 1) * step * 100) / 100);
+  return formatQuantity({ ...parsed, amount });
+}
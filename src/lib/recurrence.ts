@@ -0,0 +1,193 @@
+/**
+ * Recurrence rules for to-do items.
+ *
+ * Dates are plain "YYYY-MM-DD" strings (like TodoItem.due_date). All math is
+ * done in UTC so daylight saving changes never shift a date.
+ */
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+
+export type TodoRecurrence =
+  | { type: "daily" }
+  | { type: "weekly"; days: Weekday[] }
+  | { type: "interval"; unit: "week" | "month"; every: number }
+  | { type: "after_completion"; days: number };
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const fromUtc = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: string, days: number) =>
+  fromUtc(new Date(toUtc(date).getTime() + days * DAY_MS));
+
+// Clamps to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+const addMonths = (date: string, months: number, anchorDay: number) => {
+  const d = toUtc(date);
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(anchorDay, lastDay));
+  return fromUtc(target);
+};
+
+// Local calendar date as YYYY-MM-DD (due dates have no time or timezone)
+export const todayString = () => {
+  const now = new Date();
+  const month = (now.getMonth() + 1).toString().padStart(2, "0");
+  const day = now.getDate().toString().padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+type ScheduledRecurrence = Exclude<TodoRecurrence, { type: "after_completion" }>;
+
+// The occurrence after `previous`; months count from `start` to keep the day of month
+function advance(
+  recurrence: ScheduledRecurrence,
+  start: string,
+  previous: string,
+  count: number
+): string {
+  switch (recurrence.type) {
+    case "daily":
+      return addDays(previous, 1);
+    case "weekly": {
+      // Next listed weekday (the same weekday if none are listed)
+      const days =
+        recurrence.days.length > 0 ? recurrence.days : [toUtc(start).getUTCDay() as Weekday];
+      let candidate = addDays(previous, 1);
+      while (!days.includes(toUtc(candidate).getUTCDay() as Weekday)) {
+        candidate = addDays(candidate, 1);
+      }
+      return candidate;
+    }
+    case "interval": {
+      const every = Math.max(1, recurrence.every);
+      return recurrence.unit === "week"
+        ? addDays(previous, every * 7)
+        : addMonths(start, every * count, toUtc(start).getUTCDate());
+    }
+  }
+}
+
+/**
+ * Due date of the occurrence that follows one completed on `completedOn`.
+ *
+ * Scheduled rules step forward from the current due date (or the completion
+ * date if there is none) until they pass the completion date, so finishing an
+ * overdue chore doesn't leave the next one overdue too.
+ */
+export function nextDueDate(
+  recurrence: TodoRecurrence,
+  dueDate: string | null,
+  completedOn: string
+): string {
+  if (recurrence.type === "after_completion") {
+    return addDays(completedOn, Math.max(1, recurrence.days));
+  }
+
+  const start = dueDate || completedOn;
+  let next = start;
+  let count = 0;
+  do {
+    count += 1;
+    next = advance(recurrence, start, next, count);
+  } while (next <= completedOn);
+
+  return next;
+}
+
+// The fields of a todo that carry over to its next occurrence
+export interface RecurringTodo {
+  content: string;
+  priority?: string;
+  notes?: string | null;
+  checklist?: { content: string; completed: boolean }[];
+  list?: string | null;
+  due_date?: string | null;
+  due_time?: string | null;
+  purchase?: boolean | null;
+}
+
+/**
+ * POST /todos body for the occurrence that follows `todo`, completed on
+ * `completedOn`. It keeps the rule, and every checklist step starts unchecked.
+ */
+export function nextOccurrenceOf(todo: RecurringTodo, recurrence: TodoRecurrence, completedOn: string) {
+  const { content, priority, notes, checklist, list, due_time, purchase } = todo;
+  return {
+    content,
+    priority,
+    notes,
+    recurrence,
+    due_time,
+    purchase,
+    ...(list ? { list } : {}),
+    checklist: (checklist ?? []).map((item) => ({ ...item, completed: false })),
+    due_date: nextDueDate(recurrence, todo.due_date ?? null, completedOn),
+  };
+}
+
+// Short human-readable form, e.g. "every Mon, Thu" or "3d after done"
+export function describeRecurrence(recurrence: TodoRecurrence): string {
+  switch (recurrence.type) {
+    case "daily":
+      return "daily";
+    case "weekly": {
+      const names = [...recurrence.days]
+        .sort((a, b) => a - b)
+        .map((d) => DAY_NAMES[d][0].toUpperCase() + DAY_NAMES[d].slice(1));
+      return names.length > 0 ? `every ${names.join(", ")}` : "weekly";
+    }
+    case "interval":
+      if (recurrence.every === 1) return recurrence.unit === "week" ? "weekly" : "monthly";
+      return `every ${recurrence.every} ${recurrence.unit}s`;
+    case "after_completion":
+      return `${recurrence.days}d after done`;
+  }
+}
+
+/**
+ * Parse the text typed into the REPEAT column. Accepts:
+ *   daily | weekly | monthly
+ *   mon,thu  /  every mon thu  /  weekly on sat
+ *   every 2 weeks  /  every 3 months
+ *   10 days after done  /  10d after completion
+ * Returns null when the text isn't understood.
+ */
+export function parseRecurrence(input: string): TodoRecurrence | null {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!text) return null;
+
+  if (text === "daily" || text === "every day") return { type: "daily" };
+  if (text === "weekly" || text === "every week") return { type: "interval", unit: "week", every: 1 };
+  if (text === "monthly" || text === "every month") return { type: "interval", unit: "month", every: 1 };
+
+  const after = text.match(/^(\d+) ?d(?:ays?)? after (?:done|completion|completed|completing)$/);
+  if (after) {
+    const days = Number(after[1]);
+    return days > 0 ? { type: "after_completion", days } : null;
+  }
+
+  const interval = text.match(/^every (\d+) (week|month)s?$/);
+  if (interval) {
+    const every = Number(interval[1]);
+    return every > 0 ? { type: "interval", unit: interval[2] as "week" | "month", every } : null;
+  }
+
+  // Weekday list, optionally prefixed with "every" / "weekly on"
+  const dayText = text.replace(/^(every|weekly on|weekly|on) /, "");
+  const tokens = dayText.split(/[ ,]+/).filter((t) => t && t !== "and");
+  const days = tokens.map((t) => DAY_NAMES.findIndex((name) => t.startsWith(name)));
+  if (tokens.length > 0 && days.every((d) => d >= 0)) {
+    return { type: "weekly", days: [...new Set(days)].sort((a, b) => a - b) as Weekday[] };
+  }
+
+  return null;
+}
@@ -0,0 +1,116 @@
+/**
+ * Signed session cookies.
+ *
+ * The cookie value is "<payload>.<signature>", both base64url encoded, where
+ * the signature is an HMAC-SHA256 of the payload with AUTH_SECRET. Only Web
+ * Crypto is used so this works in the middleware as well as route handlers.
+ */
+
+export const SESSION_COOKIE = "voice-ai-session";
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// Header the middleware sets for downstream route handlers
+export const USER_HEADER = "x-voice-ai-user";
+
+export interface SessionPayload {
+  username: string;
+  exp: number; // Unix seconds
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Without AUTH_SECRET, sessions are signed with a per-process key and
+// everyone is logged out when the server restarts
+const globalForSecret = globalThis as typeof globalThis & { voiceAiAuthSecret?: string };
+
+function getSecret(): string {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+
+  if (!globalForSecret.voiceAiAuthSecret) {
+    console.warn("AUTH_SECRET not configured, sessions will not survive a server restart");
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    globalForSecret.voiceAiAuthSecret = toBase64Url(bytes);
+  }
+  return globalForSecret.voiceAiAuthSecret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+// Cookie attributes; "secure" only when the browser reached us over HTTPS
+// (Tailscale terminates TLS and forwards plain HTTP)
+export function sessionCookieOptions(request: Request) {
+  const forwardedProto = request.headers.get("x-forwarded-proto");
+  const secure = forwardedProto ? forwardedProto === "https" : request.url.startsWith("https:");
+
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure,
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  };
+}
+
+// Create a signed cookie value for a user
+export async function createSessionToken(username: string): Promise<string> {
+  const payload: SessionPayload = {
+    username,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getKey(), encoder.encode(encodedPayload));
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Verify a cookie value; returns null when missing, tampered with or expired
+export async function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) return null;
+
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(encodedPayload)
+    );
+    if (!valid) return null;
+
+    const payload: SessionPayload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload)));
+    if (typeof payload.username !== "string" || payload.exp < Date.now() / 1000) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
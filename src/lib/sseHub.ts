@@ -0,0 +1,343 @@
+import { recordMemoryEvent, recordMemorySnapshot } from "./locationHistory";
+
+const API_BASE = process.env.CHAT_API_URL || "http://localhost:8765";
+
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Keep the upstream open briefly after the last browser leaves so page
+// reloads don't cause a disconnect/reconnect cycle on the chat server
+const IDLE_DISCONNECT_DELAY_MS = 10000;
+// Number of recent events kept for Last-Event-ID replay
+const REPLAY_BUFFER_SIZE = 500;
+
+type Subscriber = ReadableStreamDefaultController<Uint8Array>;
+
+interface BufferedEvent {
+  seq: number;
+  block: string;
+}
+
+const encoder = new TextEncoder();
+
+// Extract the "event:" field of a raw SSE block
+function getEventType(block: string): string {
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      return line.slice(6).trim();
+    }
+  }
+  return "message";
+}
+
+// The chat server's memories, where the location history starts from
+async function fetchMemories(): Promise<Record<string, unknown>[]> {
+  const response = await fetch(`${API_BASE}/memories`, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Upstream responded with ${response.status}`);
+  }
+  const data = await response.json();
+  return Array.isArray(data) ? data : (data.memories || []);
+}
+
+// Parse the "data:" lines of a raw SSE block as a JSON object
+function getEventData(block: string): Record<string, unknown> | null {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Start a new id epoch; ids from an older epoch can't be resumed
+function newEpoch(): string {
+  return Date.now().toString(36);
+}
+
+/**
+ * Holds a single upstream subscription to the chat server's /events stream
+ * and broadcasts every event to all connected browsers.
+ *
+ * The upstream is opened when the first browser subscribes, reconnects with
+ * exponential backoff while anyone is listening, and is closed again once
+ * the last browser has been gone for a while - unless keepOpen() was called,
+ * in which case it stays open (and keeps recording history) for good.
+ *
+ * Every event is tagged with an "<epoch>-<seq>" id and kept in a bounded
+ * ring buffer. A reconnecting browser passes its Last-Event-ID and gets the
+ * events it missed replayed; if they are no longer buffered (or the id is
+ * from an older epoch) it gets a "resync" event and refetches instead.
+ */
+class SSEHub {
+  private subscribers = new Set<Subscriber>();
+  private upstreamAbort: AbortController | null = null;
+  private upstreamConnected = false;
+  private reconnectDelay = RECONNECT_MIN_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  // Last "connected" event from upstream, replayed to late subscribers
+  private lastConnectedBlock: string | null = null;
+  // Whether upstream was connected before in this epoch (a reconnect leaves a gap)
+  private hadUpstream = false;
+  private epoch = newEpoch();
+  private seq = 0;
+  private buffer: BufferedEvent[] = [];
+  private alwaysOpen = false;
+
+  // Hold the upstream open with no browsers too, so no event goes unrecorded
+  keepOpen() {
+    this.alwaysOpen = true;
+    this.ensureUpstream();
+  }
+
+  subscribe(subscriber: Subscriber, lastEventId?: string | null) {
+    this.subscribers.add(subscriber);
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    // Tell the browser the stream is open before the first real event
+    this.send(subscriber, ": connected to hub\n\n");
+    if (lastEventId) {
+      this.replay(subscriber, lastEventId);
+    } else if (this.upstreamConnected && this.lastConnectedBlock) {
+      this.send(subscriber, this.lastConnectedBlock);
+    }
+
+    this.startKeepAlive();
+    this.ensureUpstream();
+  }
+
+  unsubscribe(subscriber: Subscriber) {
+    this.subscribers.delete(subscriber);
+
+    if (this.subscribers.size === 0 && !this.alwaysOpen && !this.idleTimer) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null;
+        if (this.subscribers.size === 0) {
+          this.stop();
+        }
+      }, IDLE_DISCONNECT_DELAY_MS);
+    }
+  }
+
+  get subscriberCount() {
+    return this.subscribers.size;
+  }
+
+  private send(subscriber: Subscriber, chunk: string) {
+    try {
+      subscriber.enqueue(encoder.encode(chunk));
+    } catch {
+      // Stream already closed by the browser
+      this.subscribers.delete(subscriber);
+    }
+  }
+
+  private broadcast(chunk: string) {
+    this.subscribers.forEach((subscriber) => this.send(subscriber, chunk));
+  }
+
+  // Tag an event with the next id, buffer it for replay and broadcast it
+  private publish(lines: string[]): string {
+    this.seq += 1;
+    const block = `id: ${this.epoch}-${this.seq}\n${lines.join("\n")}\n\n`;
+
+    this.buffer.push({ seq: this.seq, block });
+    if (this.buffer.length > REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    this.broadcast(block);
+    return block;
+  }
+
+  // Send everything after lastEventId, or a resync if that's not possible
+  private replay(subscriber: Subscriber, lastEventId: string) {
+    const [epoch, seqString] = lastEventId.split("-");
+    const lastSeq = Number(seqString);
+
+    if (epoch !== this.epoch || !Number.isInteger(lastSeq) || lastSeq > this.seq) {
+      this.sendResync(subscriber, "unknown_event_id");
+      return;
+    }
+
+    // The first missed event was already evicted from the buffer
+    const oldestSeq = this.buffer[0]?.seq ?? this.seq + 1;
+    if (lastSeq + 1 < oldestSeq) {
+      this.sendResync(subscriber, "gap_too_large");
+      return;
+    }
+
+    this.buffer
+      .filter((event) => event.seq > lastSeq)
+      .forEach((event) => this.send(subscriber, event.block));
+  }
+
+  // Resync carries the current id so the browser resumes from here afterwards
+  private sendResync(subscriber: Subscriber, reason: string) {
+    this.send(
+      subscriber,
+      `id: ${this.epoch}-${this.seq}\nevent: resync\ndata: ${JSON.stringify({ reason })}\n\n`
+    );
+  }
+
+  private startKeepAlive() {
+    if (this.keepAliveTimer) return;
+    this.keepAliveTimer = setInterval(() => {
+      this.broadcast(": keep-alive\n\n");
+    }, KEEP_ALIVE_INTERVAL_MS);
+  }
+
+  private ensureUpstream() {
+    if (this.upstreamAbort || this.reconnectTimer) return;
+    this.connectUpstream();
+  }
+
+  private async connectUpstream() {
+    const abortController = new AbortController();
+    this.upstreamAbort = abortController;
+
+    try {
+      const response = await fetch(`${API_BASE}/events`, {
+        headers: {
+          Accept: "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+        signal: abortController.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Upstream responded with ${response.status}`);
+      }
+
+      this.upstreamConnected = true;
+      this.reconnectDelay = RECONNECT_MIN_DELAY_MS;
+
+      // Events sent while upstream was down are lost; everyone must refetch
+      if (this.hadUpstream) {
+        this.publish(["event: resync", `data: ${JSON.stringify({ reason: "upstream_reconnected" })}`]);
+      }
+      this.hadUpstream = true;
+
+      // Moves made while the hub wasn't listening need a starting point
+      recordMemorySnapshot(fetchMemories()).catch(() => {});
+
+      await this.pump(response.body);
+    } catch (error) {
+      if (!(error instanceof Error && error.name === "AbortError")) {
+        console.error("[SSE hub] Upstream error:", error);
+      }
+    } finally {
+      this.upstreamConnected = false;
+      if (this.upstreamAbort === abortController) {
+        this.upstreamAbort = null;
+      }
+    }
+
+    if (!abortController.signal.aborted) {
+      this.scheduleReconnect();
+    }
+  }
+
+  // Read upstream bytes, split them into complete SSE blocks and broadcast
+  private async pump(body: ReadableStream<Uint8Array>) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+        let separatorIndex = buffer.indexOf("\n\n");
+        while (separatorIndex !== -1) {
+          const block = buffer.slice(0, separatorIndex);
+          buffer = buffer.slice(separatorIndex + 2);
+          this.handleBlock(block);
+          separatorIndex = buffer.indexOf("\n\n");
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private handleBlock(block: string) {
+    // Drop upstream comments (the hub sends its own keep-alives) and
+    // upstream ids (the hub assigns its own)
+    const lines = block
+      .split("\n")
+      .filter((line) => line && !line.startsWith(":") && !line.startsWith("id:"));
+    if (lines.length === 0) return;
+
+    const published = this.publish(lines);
+    const eventType = getEventType(published);
+    if (eventType === "connected") {
+      this.lastConnectedBlock = published;
+    }
+
+    // The chat server doesn't keep location history, so it's recorded here
+    if (eventType.startsWith("memory_")) {
+      const data = getEventData(published);
+      // Failures are logged by the store
+      if (data) recordMemoryEvent(eventType, data).catch(() => {});
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.subscribers.size === 0 && !this.alwaysOpen) {
+      this.stop();
+      return;
+    }
+
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_DELAY_MS);
+    console.warn(`[SSE hub] Upstream lost, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectUpstream();
+    }, delay);
+  }
+
+  private stop() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    if (this.upstreamAbort) {
+      this.upstreamAbort.abort();
+      this.upstreamAbort = null;
+    }
+    this.upstreamConnected = false;
+    this.reconnectDelay = RECONNECT_MIN_DELAY_MS;
+    this.lastConnectedBlock = null;
+    // Nothing is recorded while stopped, so older ids can't be resumed
+    this.hadUpstream = false;
+    this.epoch = newEpoch();
+    this.seq = 0;
+    this.buffer = [];
+  }
+}
+
+// Keep one hub per server process, including across dev hot reloads
+const globalForHub = globalThis as typeof globalThis & { sseHub?: SSEHub };
+
+export const sseHub = globalForHub.sseHub ?? (globalForHub.sseHub = new SSEHub());
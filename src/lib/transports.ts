@@ -0,0 +1,65 @@
+/**
+ * Server-side transport policy.
+ *
+ * VOICE_TRANSPORTS is a comma-separated list (e.g. "smallwebrtc,daily") of the
+ * transports offered to browsers; the first entry is the default. Unset, every
+ * transport in AVAILABLE_TRANSPORTS is offered and DEFAULT_TRANSPORT is the default.
+ */
+
+import {
+  AVAILABLE_TRANSPORTS,
+  DEFAULT_TRANSPORT,
+  TRANSPORT_CONFIG,
+  type TransportType,
+} from "@/config";
+
+export interface TransportPolicy {
+  transports: TransportType[];
+  default: TransportType;
+}
+
+const isTransportType = (value: string): value is TransportType =>
+  (AVAILABLE_TRANSPORTS as string[]).includes(value);
+
+// Env doesn't change at runtime, so parse (and warn) once
+let cachedPolicy: TransportPolicy | null = null;
+
+export function getTransportPolicy(): TransportPolicy {
+  if (!cachedPolicy) {
+    cachedPolicy = parseTransportPolicy();
+  }
+  return cachedPolicy;
+}
+
+function parseTransportPolicy(): TransportPolicy {
+  const configured = (process.env.VOICE_TRANSPORTS || "")
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (configured.length === 0) {
+    return { transports: AVAILABLE_TRANSPORTS, default: DEFAULT_TRANSPORT };
+  }
+
+  const unknown = configured.filter((t) => !isTransportType(t));
+  if (unknown.length > 0) {
+    console.warn(`[transports] Ignoring unknown VOICE_TRANSPORTS entries: ${unknown.join(", ")}`);
+  }
+
+  const transports = [...new Set(configured.filter(isTransportType))];
+  if (transports.length === 0) {
+    console.warn("[transports] VOICE_TRANSPORTS has no usable entries, offering all transports");
+    return { transports: AVAILABLE_TRANSPORTS, default: DEFAULT_TRANSPORT };
+  }
+
+  return { transports, default: transports[0] };
+}
+
+// Map the "transport" field of a /api/start body (e.g. "webrtc") back to a TransportType
+export function transportFromRequestData(value: unknown): TransportType | null {
+  const match = AVAILABLE_TRANSPORTS.find((t) => {
+    const requestData = TRANSPORT_CONFIG[t].requestData as Record<string, unknown> | undefined;
+    return requestData?.transport === value;
+  });
+  return match || null;
+}
@@ -0,0 +1,140 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const USERS_FILE =
+  process.env.AUTH_USERS_FILE || path.join(process.cwd(), "data", "users.json");
+
+const KEY_LENGTH = 64;
+
+export interface User {
+  username: string;
+  displayName: string;
+  passwordHash: string; // "<salt hex>:<scrypt hash hex>"
+  createdAt: string;
+  // Secret in the user's calendar feed URL; created on first use
+  calendarToken?: string;
+}
+
+// What the browser gets to see about a user
+export interface PublicUser {
+  username: string;
+  displayName: string;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return { username: user.username, displayName: user.displayName };
+}
+
+export async function loadUsers(): Promise<User[]> {
+  try {
+    const content = await fs.readFile(USERS_FILE, "utf-8");
+    const data = JSON.parse(content);
+    return Array.isArray(data.users) ? data.users : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Failed to load users file:", error);
+    }
+    return [];
+  }
+}
+
+async function saveUsers(users: User[]): Promise<void> {
+  await fs.mkdir(path.dirname(USERS_FILE), { recursive: true });
+  // Write to a temp file first so a crash can't leave a truncated store
+  const tempFile = `${USERS_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify({ users }, null, 2), { mode: 0o600 });
+  await fs.rename(tempFile, USERS_FILE);
+}
+
+export async function findUser(username: string): Promise<User | null> {
+  const users = await loadUsers();
+  return users.find((u) => u.username === username.toLowerCase()) || null;
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(user: User, password: string): Promise<boolean> {
+  const [saltHex, hashHex] = user.passwordHash.split(":");
+  if (!saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// Validate and add a household account; returns an error message on failure
+export async function createUser(
+  username: string,
+  displayName: string,
+  password: string
+): Promise<{ user: User } | { error: string }> {
+  const normalized = username.trim().toLowerCase();
+
+  if (!/^[a-z0-9_-]{2,32}$/.test(normalized)) {
+    return { error: "Username must be 2-32 characters (letters, digits, - or _)" };
+  }
+  if (password.length < 8) {
+    return { error: "Password must be at least 8 characters" };
+  }
+
+  const users = await loadUsers();
+  if (users.some((u) => u.username === normalized)) {
+    return { error: `User "${normalized}" already exists` };
+  }
+
+  const user: User = {
+    username: normalized,
+    displayName: displayName.trim() || normalized,
+    passwordHash: await hashPassword(password),
+    createdAt: new Date().toISOString(),
+  };
+
+  await saveUsers([...users, user]);
+  return { user };
+}
+
+/**
+ * The user's calendar feed token, created if they don't have one yet.
+ * "regenerate" replaces it, which breaks any existing subscription.
+ */
+export async function getCalendarToken(
+  username: string,
+  regenerate = false
+): Promise<string | null> {
+  const users = await loadUsers();
+  const user = users.find((u) => u.username === username.toLowerCase());
+  if (!user) return null;
+
+  if (!user.calendarToken || regenerate) {
+    user.calendarToken = randomBytes(24).toString("hex");
+    await saveUsers(users);
+  }
+  return user.calendarToken;
+}
+
+// Look up the owner of a calendar feed token (constant-time comparison)
+export async function findUserByCalendarToken(token: string): Promise<User | null> {
+  if (!token) return null;
+  const given = Buffer.from(token);
+  const users = await loadUsers();
+
+  return (
+    users.find((u) => {
+      if (!u.calendarToken) return false;
+      const expected = Buffer.from(u.calendarToken);
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    }) || null
+  );
+}
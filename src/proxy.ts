@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, USER_HEADER, verifySessionToken } from "./lib/session";
+
+// Routes the lock screen needs before anyone is logged in
+const PUBLIC_API_ROUTES = [
+  "/api/auth/session",
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/setup",
+  // Calendar apps can't log in; the route checks the token in the URL instead
+  "/api/todos/calendar.ics",
+];
+
+/**
+ * Next.js middleware (named "proxy" since Next 16) guarding every /api route.
+ *
+ * Requests without a valid session cookie get 401. Authenticated requests are
+ * passed on with the username in the x-voice-ai-user header, which route
+ * handlers use for attribution; any client-supplied value is dropped first.
+ */
+export async function proxy(request: NextRequest) {
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(USER_HEADER);
+
+  if (PUBLIC_API_ROUTES.includes(request.nextUrl.pathname)) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+
+  requestHeaders.set(USER_HEADER, session.username);
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};